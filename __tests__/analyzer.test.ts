@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { analyzeThought, countFlaggedStreak } from '../src/analyzer';
+import { DarbotDeepmindServer, DeepmindInput, ThoughtResponse } from '../src/deepmind-server';
+import { parse, stepsOf } from './support/fixtures';
+
+describe('Thought Analyzer', () => {
+  const step = stepsOf(10);
+
+  const kinds = (history: DeepmindInput[], input: DeepmindInput) =>
+    analyzeThought(history, input).map((warning) => warning.kind);
+
+  describe('Detection', () => {
+    it('should flag near-identical thoughts on the same lane', () => {
+      const history = [step(1, 'Check the cache hit ratio on the API servers')];
+
+      const warnings = analyzeThought(
+        history,
+        step(2, 'Check the cache hit ratio on the API servers.')
+      );
+
+      expect(warnings).toEqual([expect.objectContaining({ kind: 'loop', thoughts: [1] })]);
+      expect(
+        kinds(
+          history,
+          step(2, 'Check the cache hit ratio', { branchFromThought: 1, branchId: 'b' })
+        )
+      ).toEqual([]);
+    });
+
+    it('should flag repeated revisions of the same thought', () => {
+      const history = [
+        step(1, 'The leak is in the parser'),
+        step(2, 'The leak is in the tokenizer', { isRevision: true, revisesThought: 1 }),
+        step(3, 'The leak is in the lexer', { isRevision: true, revisesThought: 2 }),
+      ];
+
+      const warning = analyzeThought(
+        history,
+        step(4, 'The leak is in the input buffer', { isRevision: true, revisesThought: 3 })
+      ).find((entry) => entry.kind === 'revision-churn');
+
+      expect(warning?.thoughts).toEqual([1, 2, 3]);
+      expect(warning?.message).toContain('revised 3 times');
+    });
+
+    it('should flag totalThoughts inflation', () => {
+      const history = [
+        step(1, 'Alpha', { totalThoughts: 3 }),
+        step(2, 'Bravo', { totalThoughts: 4 }),
+        step(3, 'Charlie', { totalThoughts: 5 }),
+      ];
+
+      expect(kinds(history, step(4, 'Delta', { totalThoughts: 6 }))).toEqual(['stagnation']);
+      expect(kinds(history, step(4, 'Delta', { totalThoughts: 5 }))).toEqual([]);
+    });
+
+    it('should flag statements that negate an earlier one', () => {
+      const history = [step(1, 'The database is the bottleneck for checkout')];
+
+      expect(kinds(history, step(2, "The database isn't the bottleneck for checkout"))).toEqual([
+        'contradiction',
+      ]);
+      expect(
+        kinds(
+          history,
+          step(2, "The database isn't the bottleneck for checkout", {
+            isRevision: true,
+            revisesThought: 1,
+          })
+        )
+      ).toEqual([]);
+    });
+
+    it('should flag opposite verdicts on one hypothesis', () => {
+      const history = [
+        step(1, 'Hypothesis: DNS is slow', { stage: 'hypothesis' }),
+        step(2, 'Resolver logs show 2s lookups', { verifiesThought: 1, verdict: 'confirmed' }),
+      ];
+
+      const warning = analyzeThought(
+        history,
+        step(3, 'Synthetic probes resolve in 5ms', { verifiesThought: 1, verdict: 'refuted' })
+      )[0];
+
+      expect(warning).toMatchObject({ kind: 'contradiction', thoughts: [2] });
+    });
+
+    it('should count consecutive flagged thoughts', () => {
+      const history = [
+        step(1, 'Look at the logs'),
+        step(2, 'Look at the logs'),
+        step(3, 'Look at the logs'),
+      ];
+
+      expect(countFlaggedStreak(history, 10)).toBe(2);
+      expect(countFlaggedStreak(history, 1)).toBe(1);
+    });
+  });
+
+  describe('Server Integration', () => {
+    let server: DarbotDeepmindServer;
+
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    });
+
+    afterEach(() => {
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+      delete process.env.DEEPMIND_LOOP_THRESHOLD;
+    });
+
+    it('should report warnings in the response', () => {
+      server = new DarbotDeepmindServer();
+      server.processThought(step(1, 'Look at the logs'));
+
+      const response = parse<ThoughtResponse>(server.processThought(step(2, 'Look at the logs')));
+
+      expect(response.warnings).toEqual([expect.objectContaining({ kind: 'loop' })]);
+    });
+
+    it('should refuse flagged thoughts past the configured threshold', () => {
+      process.env.DEEPMIND_LOOP_THRESHOLD = '2';
+      server = new DarbotDeepmindServer();
+      server.processThought(step(1, 'Look at the logs'));
+      server.processThought(step(2, 'Look at the logs'));
+      server.processThought(step(3, 'Look at the logs'));
+
+      const refused = server.processThought(step(4, 'Look at the logs'));
+      const accepted = server.processThought(step(4, 'Bisect the last deploy instead'));
+
+      expect(refused.isError).toBe(true);
+      expect(parse(refused)).toMatchObject({
+        status: 'failed',
+        warnings: [expect.objectContaining({ kind: 'loop' })],
+      });
+      expect(accepted.isError).toBeUndefined();
+      expect(server.getThoughtHistory()).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DarbotDeepmindServer, ThoughtResponse } from '../src/deepmind-server';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Batch Submission', () => {
+  let server: DarbotDeepmindServer;
+
+  const step = stepsOf(4);
+
+  /** What darbot_deepmind_batch replies with once every thought is stored */
+  interface BatchBody {
+    accepted: number;
+    results: ThoughtResponse[];
+  }
+
+  /** What it replies with when an item is refused */
+  interface BatchErrorBody extends ErrorBody {
+    failedIndex: number;
+    results: Array<{ index: number; thoughtNumber?: number; status: string; error?: string }>;
+  }
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    delete process.env.DEEPMIND_SESSION_MAX_THOUGHTS;
+    delete process.env.DEEPMIND_JOURNAL_DIR;
+  });
+
+  it('should record every thought and return one result per item', () => {
+    const events: number[] = [];
+    server.onThoughtRecorded((event) => events.push(event.thought.thoughtNumber));
+
+    const response = parse<BatchBody>(
+      server.processBatch({
+        thoughts: [
+          step(1),
+          step(2, { isRevision: true, revisesThought: 1 }),
+          step(3, { branchFromThought: 2, branchId: 'alt' }),
+        ],
+      })
+    );
+
+    expect(response.accepted).toBe(3);
+    expect(response.results.map((r) => r.thoughtHistoryLength)).toEqual([1, 2, 3]);
+    expect(response.results[2]).toMatchObject({ branchId: 'alt', branchFromThought: 2 });
+    expect(events).toEqual([1, 2, 3]);
+  });
+
+  it('should check later items against earlier ones in the same batch', () => {
+    server.processThought(step(1));
+
+    const result = server.processBatch({
+      thoughts: [step(2, { validation: 'strict' }), step(3), step(5)],
+    });
+
+    expect(result.isError).toBe(true);
+    const response = parse<BatchErrorBody>(result);
+    expect(response).toMatchObject({
+      status: 'failed',
+      failedIndex: 2,
+      results: [
+        { index: 0, thoughtNumber: 2, status: 'valid' },
+        { index: 1, thoughtNumber: 3, status: 'valid' },
+        {
+          index: 2,
+          thoughtNumber: 5,
+          status: 'failed',
+          issues: [expect.stringContaining('skips thought 4')],
+        },
+      ],
+    });
+    expect(response.error).toContain('No thoughts were stored');
+    expect(server.getThoughtHistory()).toHaveLength(1);
+    expect(server.getSessionInfo()?.counters.thoughts).toBe(1);
+  });
+
+  it('should report schema errors per item and leave later items unchecked', () => {
+    const response = parse<BatchErrorBody>(
+      server.processBatch({ thoughts: [step(1), { thought: '' }, step(3)] })
+    );
+
+    expect(response.results).toEqual([
+      { index: 0, thoughtNumber: 1, status: 'valid' },
+      expect.objectContaining({ index: 1, status: 'failed' }),
+      { index: 2, thoughtNumber: 3, status: 'unchecked' },
+    ]);
+    expect(response.results[1].error).toContain('Validation error');
+    expect(server.getSessionIds()).toEqual([]);
+  });
+
+  it('should count the whole batch against budgets', () => {
+    process.env.DEEPMIND_SESSION_MAX_THOUGHTS = '2';
+    server = new DarbotDeepmindServer();
+
+    const response = parse<BatchErrorBody>(
+      server.processBatch({
+        thoughts: [step(1), step(2), step(2, { isRevision: true, revisesThought: 1 })],
+      })
+    );
+
+    expect(response.results[2]).toMatchObject({
+      status: 'failed',
+      budget: { resource: 'thoughts', scope: 'session' },
+    });
+    expect(server.getSessionIds()).toEqual([]);
+  });
+
+  it('should not journal any thought of a rejected batch', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-batch-'));
+    try {
+      process.env.DEEPMIND_JOURNAL_DIR = directory;
+      server = new DarbotDeepmindServer();
+
+      server.processBatch({
+        thoughts: [step(1), step(2, { isRevision: true, revisesThought: 3 })],
+      });
+      server.processBatch({ thoughts: [step(1), step(2)] });
+
+      expect(new DarbotDeepmindServer().getThoughtHistory()).toHaveLength(2);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DarbotDeepmindServer, ThoughtResponse } from '../src/deepmind-server';
+import { resolveEffectiveChain } from '../src/chain';
+import { assertReferentialIntegrity, IntegrityError } from '../src/integrity';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Branch Lifecycle', () => {
+  let server: DarbotDeepmindServer;
+
+  const step = stepsOf(6);
+
+  /** What darbot_deepmind_branch replies with */
+  type BranchesBody = Pick<ThoughtResponse, 'sessionId' | 'branches'>;
+
+  /** Mainline 1-2, branch "a" off 2 with thoughts 3-4, branch "b" nested off a:3 */
+  const seedNestedBranches = (): void => {
+    server.processThought(step(1));
+    server.processThought(step(2));
+    server.processThought(step(3, { branchFromThought: 2, branchId: 'a' }));
+    server.processThought(step(4, { branchFromThought: 2, branchId: 'a' }));
+    server.processThought(step(4, { branchFromThought: 3, branchId: 'b', parentBranchId: 'a' }));
+  };
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    delete process.env.DEEPMIND_JOURNAL_DIR;
+  });
+
+  describe('Nesting', () => {
+    it('should report branches with parent, fork point and status', () => {
+      seedNestedBranches();
+
+      const response = parse<ThoughtResponse>(server.processThought(step(3)));
+
+      expect(response.branches).toEqual([
+        { branchId: 'a', branchFromThought: 2, status: 'open', thoughtCount: 2 },
+        {
+          branchId: 'b',
+          parentBranchId: 'a',
+          branchFromThought: 3,
+          status: 'open',
+          thoughtCount: 1,
+        },
+      ]);
+    });
+
+    it('should reject unknown parent branches', () => {
+      server.processThought(step(1));
+
+      const result = server.processThought(
+        step(2, { branchFromThought: 1, branchId: 'b', parentBranchId: 'missing' })
+      );
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('Unknown parent branch "missing"');
+    });
+
+    it('should not let a branch change its parent', () => {
+      seedNestedBranches();
+
+      const result = server.processThought(
+        step(5, { branchFromThought: 3, branchId: 'a', parentBranchId: 'b' })
+      );
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('parentBranchId cannot change');
+    });
+
+    it('should resolve a nested branch through its parent', () => {
+      seedNestedBranches();
+
+      const chain = resolveEffectiveChain(server.getThoughtHistory(), 'b');
+
+      expect(chain.thoughts.map((entry) => [entry.thoughtNumber, entry.branchId])).toEqual([
+        [1, undefined],
+        [2, undefined],
+        [3, 'a'],
+        [4, 'b'],
+      ]);
+    });
+
+    it('should require the fork point to be on the parent branch in strict mode', () => {
+      const history = [step(1), step(2), step(3, { branchFromThought: 2, branchId: 'a' })];
+      const records = {
+        a: { branchId: 'a', branchFromThought: 2, status: 'open' as const },
+      };
+
+      expect(() =>
+        assertReferentialIntegrity(
+          step(2, { branchFromThought: 1, branchId: 'b', parentBranchId: 'a' }),
+          history,
+          { a: [history[2]] },
+          records
+        )
+      ).toThrow(IntegrityError);
+    });
+  });
+
+  describe('Status and Merge', () => {
+    it('should abandon a branch and refuse further thoughts on it', () => {
+      seedNestedBranches();
+
+      const updated = parse<BranchesBody>(
+        server.manageBranch({
+          action: 'update',
+          branchId: 'b',
+          status: 'abandoned',
+          rationale: 'Dead end',
+        })
+      );
+      const result = server.processThought(
+        step(5, { branchFromThought: 3, branchId: 'b', parentBranchId: 'a' })
+      );
+
+      expect(updated.branches[1]).toMatchObject({ status: 'abandoned', rationale: 'Dead end' });
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('is abandoned');
+    });
+
+    it('should merge a branch into its parent with the adopted conclusion', () => {
+      seedNestedBranches();
+
+      const merged = parse<BranchesBody>(server.manageBranch({ action: 'merge', branchId: 'b' }));
+      const mainlineMerge = parse<BranchesBody>(
+        server.manageBranch({ action: 'merge', branchId: 'a', conclusionThought: 3 })
+      );
+
+      expect(merged.branches[1]).toMatchObject({
+        status: 'merged',
+        mergedInto: 'a',
+        conclusionThought: 4,
+      });
+      expect(mainlineMerge.branches[0]).toMatchObject({
+        status: 'merged',
+        mergedInto: null,
+        conclusionThought: 3,
+      });
+    });
+
+    it('should reject conclusions outside the branch and changes after a merge', () => {
+      seedNestedBranches();
+
+      const outside = server.manageBranch({ action: 'merge', branchId: 'a', conclusionThought: 1 });
+      server.manageBranch({ action: 'merge', branchId: 'a' });
+      const afterMerge = server.manageBranch({ action: 'update', branchId: 'a', status: 'open' });
+
+      expect(parse<ErrorBody>(outside).error).toContain('not part of branch "a"');
+      expect(parse<ErrorBody>(afterMerge).error).toContain('already merged');
+    });
+
+    it('should reject unknown branches and sessions', () => {
+      server.processThought(step(1));
+
+      expect(
+        parse<ErrorBody>(server.manageBranch({ action: 'merge', branchId: 'x' })).error
+      ).toContain('Unknown branch "x"');
+      expect(
+        parse<ErrorBody>(server.manageBranch({ action: 'list', sessionId: 'nope' })).error
+      ).toBe('Unknown session: nope');
+    });
+  });
+
+  describe('Pruning', () => {
+    it('should hide abandoned and merged branches once pruning is enabled', () => {
+      seedNestedBranches();
+      server.manageBranch({ action: 'update', branchId: 'b', status: 'abandoned' });
+
+      const response = parse<ThoughtResponse>(
+        server.processThought(step(3, { pruneBranches: true }))
+      );
+      const listed = parse<BranchesBody>(server.manageBranch({ action: 'list' }));
+
+      expect(response.branches.map((branch) => branch.branchId)).toEqual(['a']);
+      expect(listed.branches).toHaveLength(2);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should replay status changes from the journal', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-branches-'));
+      try {
+        process.env.DEEPMIND_JOURNAL_DIR = directory;
+        server = new DarbotDeepmindServer();
+        seedNestedBranches();
+        server.manageBranch({ action: 'update', branchId: 'a', status: 'selected' });
+        server.manageBranch({ action: 'merge', branchId: 'b', rationale: 'Adopted' });
+
+        const restarted = new DarbotDeepmindServer();
+        await restarted.restore();
+
+        expect(restarted.getSessionInfo()?.branches).toEqual([
+          { branchId: 'a', branchFromThought: 2, status: 'selected', thoughtCount: 2 },
+          {
+            branchId: 'b',
+            parentBranchId: 'a',
+            branchFromThought: 3,
+            status: 'merged',
+            rationale: 'Adopted',
+            mergedInto: 'a',
+            conclusionThought: 4,
+            thoughtCount: 1,
+          },
+        ]);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DarbotDeepmindServer, ThoughtResponse } from '../src/deepmind-server';
+import { thoughtBytes } from '../src/budgets';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Thought Budgets', () => {
+  const BUDGET_VARIABLES = [
+    'DEEPMIND_MAX_THOUGHT_CHARS',
+    'DEEPMIND_SESSION_MAX_THOUGHTS',
+    'DEEPMIND_SESSION_MAX_BRANCHES',
+    'DEEPMIND_SESSION_MAX_BYTES',
+    'DEEPMIND_GLOBAL_MAX_THOUGHTS',
+    'DEEPMIND_GLOBAL_MAX_BRANCHES',
+    'DEEPMIND_GLOBAL_MAX_BYTES',
+  ];
+
+  const step = stepsOf(3);
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    for (const name of BUDGET_VARIABLES) {
+      delete process.env[name];
+    }
+  });
+
+  it('should not report budgets when none are configured', () => {
+    const server = new DarbotDeepmindServer();
+
+    expect(parse<ThoughtResponse>(server.processThought(step(1))).budget).toBeUndefined();
+  });
+
+  it('should reject thoughts longer than the character limit', () => {
+    process.env.DEEPMIND_MAX_THOUGHT_CHARS = '10';
+    const server = new DarbotDeepmindServer();
+
+    const result = server.processThought(step(1, { thought: 'x'.repeat(11) }));
+
+    expect(result.isError).toBe(true);
+    expect(parse<ErrorBody>(result)).toMatchObject({
+      budget: { resource: 'thoughtChars', scope: 'thought', limit: 10, requested: 11 },
+      status: 'failed',
+    });
+  });
+
+  it('should count characters outside the Basic Multilingual Plane once', () => {
+    process.env.DEEPMIND_MAX_THOUGHT_CHARS = '10';
+    const server = new DarbotDeepmindServer();
+
+    expect(server.processThought(step(1, { thought: '🧠'.repeat(10) })).isError).toBeUndefined();
+    expect(
+      parse<ErrorBody>(server.processThought(step(2, { thought: '🧠'.repeat(11) })))
+    ).toMatchObject({
+      budget: { resource: 'thoughtChars', requested: 11 },
+    });
+  });
+
+  it('should cap thoughts and thought numbers per session and report what remains', () => {
+    process.env.DEEPMIND_SESSION_MAX_THOUGHTS = '2';
+    const server = new DarbotDeepmindServer();
+
+    const first = parse<ThoughtResponse>(server.processThought(step(1)));
+    const beyond = parse<ErrorBody>(server.processThought(step(5)));
+    server.processThought(step(2));
+    const full = parse<ErrorBody>(
+      server.processThought(step(2, { isRevision: true, revisesThought: 1 }))
+    );
+    const other = parse<ThoughtResponse>(server.processThought(step(1, { sessionId: 'other' })));
+
+    expect(first.budget).toEqual({ session: { thoughts: 1 }, global: {} });
+    expect(beyond.budget).toMatchObject({ resource: 'thoughts', limit: 2, requested: 5 });
+    expect(full).toMatchObject({ budget: { resource: 'thoughts', scope: 'session' } });
+    expect(other.budget?.session.thoughts).toBe(1);
+  });
+
+  it('should count new branches against the branch budget', () => {
+    process.env.DEEPMIND_SESSION_MAX_BRANCHES = '1';
+    const server = new DarbotDeepmindServer();
+    server.processThought(step(1));
+    server.processThought(step(2, { branchFromThought: 1, branchId: 'a' }));
+
+    const sameBranch = parse<ThoughtResponse>(
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'a' }))
+    );
+    const newBranch = server.processThought(step(2, { branchFromThought: 1, branchId: 'b' }));
+
+    expect(sameBranch.budget?.session.branches).toBe(0);
+    expect(parse<ErrorBody>(newBranch).budget).toMatchObject({
+      resource: 'branches',
+      scope: 'session',
+    });
+  });
+
+  it('should enforce global budgets across sessions', () => {
+    const bytes = thoughtBytes(step(1, { sessionId: 'a' }));
+    process.env.DEEPMIND_GLOBAL_MAX_BYTES = String(bytes * 2);
+    process.env.DEEPMIND_GLOBAL_MAX_THOUGHTS = '5';
+    const server = new DarbotDeepmindServer();
+
+    server.processThought(step(1, { sessionId: 'a' }));
+    const second = parse<ThoughtResponse>(server.processThought(step(1, { sessionId: 'b' })));
+    const third = parse<ErrorBody>(server.processThought(step(1, { sessionId: 'c' })));
+
+    expect(second.budget?.global).toEqual({ thoughts: 3, bytes: 0 });
+    expect(third.budget).toMatchObject({ resource: 'bytes', scope: 'global' });
+    expect(third.error).toContain('Server bytes budget exhausted');
+  });
+
+  it('should count thoughts kept in rollback archives', () => {
+    process.env.DEEPMIND_SESSION_MAX_THOUGHTS = '3';
+    process.env.DEEPMIND_GLOBAL_MAX_BYTES = '100000';
+    const server = new DarbotDeepmindServer();
+    server.processThought(step(1));
+    server.processThought(step(2));
+    const before = parse<ThoughtResponse>(server.processThought(step(3))).budget?.global.bytes ?? 0;
+
+    const rollback = parse<{ archiveId: string }>(
+      server.manageCheckpoint({ action: 'rollback', toThought: 1 })
+    );
+    const refused = parse<ErrorBody>(server.processThought(step(2)));
+    server.manageCheckpoint({ action: 'restore', archiveId: rollback.archiveId });
+    server.manageCheckpoint({ action: 'rollback', toThought: 2 });
+    const other = parse<ThoughtResponse>(server.processThought(step(1, { sessionId: 'other' })));
+
+    expect(refused.budget).toMatchObject({ resource: 'thoughts', scope: 'session', requested: 4 });
+    // The archived third thought and its snapshot still count, so the rollback freed nothing
+    expect(other.budget?.global.bytes).toBeLessThan(
+      before - thoughtBytes(step(1, { sessionId: 'other' }))
+    );
+  });
+});
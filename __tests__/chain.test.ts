@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { resolveEffectiveChain } from '../src/chain';
+import { stepsOf } from './support/fixtures';
+
+describe('Effective Chain Resolution', () => {
+  const step = stepsOf(6);
+
+  describe('Mainline', () => {
+    it('should replace revised thoughts with their latest revision', () => {
+      const history = [
+        step(1),
+        step(2),
+        step(3, { isRevision: true, revisesThought: 1, thought: 'Step 1, take two' }),
+        step(4, { isRevision: true, revisesThought: 3, thought: 'Step 1, take three' }),
+        step(5),
+      ];
+
+      const chain = resolveEffectiveChain(history);
+
+      expect(chain.thoughts.map((entry) => entry.thought)).toEqual([
+        'Step 1, take three',
+        'Step 2',
+        'Step 5',
+      ]);
+      expect(chain.thoughts[0].lineage).toEqual([1, 3, 4]);
+      expect(chain.thoughts[0].thoughtNumber).toBe(4);
+      expect(chain.superseded).toEqual([1, 3]);
+    });
+
+    it('should ignore branch thoughts', () => {
+      const history = [step(1), step(2, { branchFromThought: 1, branchId: 'alt' }), step(2)];
+
+      const chain = resolveEffectiveChain(history);
+
+      expect(chain.thoughts.map((entry) => entry.thoughtNumber)).toEqual([1, 2]);
+      expect(chain.thoughts.every((entry) => entry.branchId === undefined)).toBe(true);
+    });
+
+    it('should keep revisions of unknown thoughts as standalone entries', () => {
+      const chain = resolveEffectiveChain([step(2, { isRevision: true, revisesThought: 1 })]);
+
+      expect(chain.thoughts).toHaveLength(1);
+      expect(chain.superseded).toEqual([]);
+    });
+  });
+
+  describe('Branches', () => {
+    it('should inherit the mainline up to the fork point', () => {
+      const history = [
+        step(1),
+        step(2),
+        step(3),
+        step(3, { branchFromThought: 2, branchId: 'alt', thought: 'Alt 3' }),
+        step(4, {
+          branchFromThought: 2,
+          branchId: 'alt',
+          isRevision: true,
+          revisesThought: 1,
+          thought: 'Alt view of 1',
+        }),
+      ];
+
+      const chain = resolveEffectiveChain(history, 'alt');
+
+      expect(chain.branchId).toBe('alt');
+      expect(chain.thoughts.map((entry) => entry.thought)).toEqual([
+        'Alt view of 1',
+        'Step 2',
+        'Alt 3',
+      ]);
+      expect(resolveEffectiveChain(history).thoughts[0].thought).toBe('Step 1');
+    });
+
+    it('should reject unknown branches', () => {
+      expect(() => resolveEffectiveChain([step(1)], 'missing')).toThrow('Unknown branch: missing');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+import type { BranchSummary } from '../src/branches';
+import { Checkpoint, MAX_ARCHIVES } from '../src/checkpoints';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Checkpoints and Rollback', () => {
+  let server: DarbotDeepmindServer;
+
+  const step = stepsOf(6);
+
+  /** What darbot_deepmind_checkpoint replies with */
+  interface CheckpointBody {
+    sessionId: string;
+    archiveId?: string;
+    thoughtHistoryLength: number;
+    lastThoughtNumber?: number;
+    checkpoints: Checkpoint[];
+    archives: Array<{ archiveId: string; thoughtCount: number; thoughtNumbers: number[] }>;
+    branches: BranchSummary[];
+  }
+
+  /** Mainline 1-2, checkpoint "base", then branch "alt" off 2 and mainline 3 */
+  const seed = (): void => {
+    server.processThought(step(1));
+    server.processThought(step(2));
+    server.manageCheckpoint({ action: 'create', name: 'base' });
+    server.processThought(step(3, { branchFromThought: 2, branchId: 'alt', confidence: 0.4 }));
+    server.processThought(step(3, { isRevision: true, revisesThought: 1 }));
+  };
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    delete process.env.DEEPMIND_JOURNAL_DIR;
+  });
+
+  describe('Checkpoints', () => {
+    it('should record the position of the last thought', () => {
+      seed();
+
+      const { checkpoints } = parse<CheckpointBody>(server.manageCheckpoint({ action: 'list' }));
+
+      expect(checkpoints).toEqual([
+        expect.objectContaining({ name: 'base', historyLength: 2, thoughtNumber: 2 }),
+      ]);
+    });
+
+    it('should reject duplicate names', () => {
+      seed();
+
+      const result = server.manageCheckpoint({ action: 'create', name: 'base' });
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toBe('Checkpoint "base" already exists.');
+    });
+  });
+
+  describe('Rollback', () => {
+    it('should truncate history, branches and counters to a checkpoint', () => {
+      seed();
+
+      const response = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'rollback', checkpoint: 'base' })
+      );
+
+      expect(response.thoughtHistoryLength).toBe(2);
+      expect(response.branches).toEqual([]);
+      expect(response.archives).toEqual([
+        expect.objectContaining({
+          archiveId: response.archiveId,
+          target: 'checkpoint "base"',
+          fromLength: 2,
+          thoughtNumbers: [3, 3],
+        }),
+      ]);
+      expect(server.getBranches()).toEqual({});
+      expect(server.getSessionInfo()?.counters).toEqual({
+        thoughts: 2,
+        revisions: 0,
+        branchThoughts: 0,
+      });
+    });
+
+    it('should roll back to a thought on a branch', () => {
+      server.processThought(step(1));
+      server.processThought(step(2, { branchFromThought: 1, branchId: 'alt', confidence: 0.9 }));
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'alt', confidence: 0.1 }));
+
+      const response = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'rollback', toThought: 2, branchId: 'alt' })
+      );
+
+      expect(response.branches).toEqual([
+        expect.objectContaining({
+          branchId: 'alt',
+          thoughtCount: 1,
+          confidence: { scored: 1, latest: 0.9, mean: 0.9, min: 0.9, max: 0.9 },
+        }),
+      ]);
+    });
+
+    it('should reject ambiguous or empty rollbacks', () => {
+      seed();
+
+      const both = server.manageCheckpoint({
+        action: 'rollback',
+        checkpoint: 'base',
+        toThought: 1,
+      });
+      const nothing = server.manageCheckpoint({ action: 'rollback', toThought: 3 });
+      const unknown = server.manageCheckpoint({ action: 'rollback', toThought: 9 });
+
+      expect(parse<ErrorBody>(both).error).toContain('exactly one of checkpoint or toThought');
+      expect(parse<ErrorBody>(nothing).error).toContain('Nothing to roll back');
+      expect(parse<ErrorBody>(unknown).error).toBe('Thought 9 is not recorded on the mainline.');
+    });
+  });
+
+  describe('Restore', () => {
+    it('should bring back the archived suffix', () => {
+      seed();
+      server.manageBranch({ action: 'update', branchId: 'alt', status: 'selected' });
+      const { archiveId } = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'rollback', toThought: 1 })
+      );
+
+      const response = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'restore', archiveId })
+      );
+
+      expect(response.thoughtHistoryLength).toBe(4);
+      expect(response.archives).toEqual([]);
+      expect(response.checkpoints.map((entry: { name: string }) => entry.name)).toEqual(['base']);
+      expect(response.branches[0]).toMatchObject({ branchId: 'alt', status: 'selected' });
+      expect(server.getSessionInfo()?.counters.revisions).toBe(1);
+    });
+
+    it('should keep branch changes made after the rollback', () => {
+      server.processThought(step(1));
+      server.processThought(step(2, { branchFromThought: 1, branchId: 'kept' }));
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'cut' }));
+      server.manageBranch({ action: 'update', branchId: 'cut', status: 'selected' });
+      const { archiveId } = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'rollback', toThought: 2, branchId: 'kept' })
+      );
+      server.manageBranch({ action: 'update', branchId: 'kept', status: 'abandoned' });
+
+      const response = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'restore', archiveId })
+      );
+
+      expect(response.branches).toEqual([
+        expect.objectContaining({ branchId: 'kept', status: 'abandoned' }),
+        expect.objectContaining({ branchId: 'cut', status: 'selected' }),
+      ]);
+    });
+
+    it('should refuse to restore once the history has moved on', () => {
+      seed();
+      const { archiveId } = parse<CheckpointBody>(
+        server.manageCheckpoint({ action: 'rollback', checkpoint: 'base' })
+      );
+      server.processThought(step(3));
+
+      const result = server.manageCheckpoint({ action: 'restore', archiveId });
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('roll back to the same point');
+    });
+
+    it('should keep only the most recent archives', () => {
+      server.processThought(step(1));
+      const archiveIds: string[] = [];
+      for (let index = 0; index <= MAX_ARCHIVES; index++) {
+        server.processThought(step(2, `Attempt ${index}`));
+        archiveIds.push(
+          parse<CheckpointBody>(server.manageCheckpoint({ action: 'rollback', toThought: 1 }))
+            .archiveId ?? ''
+        );
+      }
+
+      const response = parse<CheckpointBody>(server.manageCheckpoint({ action: 'list' }));
+
+      expect(response.archives).toHaveLength(MAX_ARCHIVES);
+      expect(response.archives[0].archiveId).toBe(archiveIds[1]);
+      expect(server.manageCheckpoint({ action: 'restore', archiveId: archiveIds[0] }).isError).toBe(
+        true
+      );
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should replay checkpoints and rollbacks from the journal', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-checkpoints-'));
+      try {
+        process.env.DEEPMIND_JOURNAL_DIR = directory;
+        server = new DarbotDeepmindServer();
+        seed();
+        const { archiveId } = parse<CheckpointBody>(
+          server.manageCheckpoint({ action: 'rollback', checkpoint: 'base' })
+        );
+        server.processThought(step(3, { thought: 'A better step 3' }));
+
+        const restarted = new DarbotDeepmindServer();
+        await restarted.restore();
+
+        expect(restarted.getThoughtHistory().map((thought) => thought.thought)).toEqual([
+          'Step 1',
+          'Step 2',
+          'A better step 3',
+        ]);
+        const { archives } = parse<CheckpointBody>(restarted.manageCheckpoint({ action: 'list' }));
+        expect(archives.map((entry: { archiveId: string }) => entry.archiveId)).toEqual([
+          archiveId,
+        ]);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
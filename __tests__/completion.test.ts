@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { evaluateCompletion, parseCompletionGates } from '../src/completion';
+import { DarbotDeepmindServer, DeepmindInput, ThoughtResponse } from '../src/deepmind-server';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Completion Gates', () => {
+  const step = stepsOf(4);
+
+  const finish = (thoughtNumber: number, extra: Partial<DeepmindInput> = {}) =>
+    step(thoughtNumber, 'Use the read replica for reports', {
+      nextThoughtNeeded: false,
+      stage: 'conclusion',
+      ...extra,
+    });
+
+  const gatesOf = (items: Array<{ gate: string }> = []) => items.map((item) => item.gate);
+
+  describe('Configuration', () => {
+    it('should parse gate lists', () => {
+      expect(parseCompletionGates(undefined)).toEqual([]);
+      expect(parseCompletionGates('last-is-conclusion, bogus')).toEqual(['last-is-conclusion']);
+      expect(parseCompletionGates('ALL')).toHaveLength(5);
+    });
+  });
+
+  describe('Evaluation', () => {
+    const all = parseCompletionGates('all');
+
+    it('should pass a clean finish', () => {
+      const history = [step(1, 'Reports slow down checkout')];
+
+      expect(evaluateCompletion(all, history, {}, finish(2))).toEqual([]);
+    });
+
+    it('should list open branches and unverified hypotheses', () => {
+      const history = [
+        step(1, 'Hypothesis: reports lock the orders table', { stage: 'hypothesis' }),
+        step(2, 'Try a replica', { branchFromThought: 1, branchId: 'replica' }),
+      ];
+      const records = {
+        replica: { branchId: 'replica', branchFromThought: 1, status: 'open' as const },
+      };
+
+      const outstanding = evaluateCompletion(all, history, records, finish(2));
+
+      expect(outstanding).toEqual([
+        expect.objectContaining({ gate: 'branches-resolved', branches: ['replica'] }),
+        expect.objectContaining({ gate: 'hypotheses-verified', thoughts: [1] }),
+      ]);
+    });
+
+    it('should require a conclusion and no pending request for more thoughts', () => {
+      const history = [step(1, 'Reports slow down checkout', { needsMoreThoughts: true })];
+
+      const outstanding = evaluateCompletion(all, history, {}, finish(2, { stage: 'analysis' }));
+
+      expect(gatesOf(outstanding)).toEqual(['last-is-conclusion', 'no-more-thoughts-requested']);
+    });
+
+    it('should flag contradictions until one side is revised', () => {
+      const history = [
+        step(1, 'The orders table is locked during reports'),
+        step(2, 'The orders table is not locked during reports'),
+      ];
+      const gates = parseCompletionGates('no-pending-revisions');
+
+      expect(evaluateCompletion(gates, history, {}, finish(3))).toEqual([
+        expect.objectContaining({ gate: 'no-pending-revisions', thoughts: [2] }),
+      ]);
+      expect(
+        evaluateCompletion(
+          gates,
+          [
+            ...history,
+            step(3, 'Lock waits were a red herring', { isRevision: true, revisesThought: 1 }),
+          ],
+          {},
+          finish(4)
+        )
+      ).toEqual([]);
+    });
+
+    it('should hold a finish back until stale thoughts are revised', () => {
+      const history = [
+        step(1, 'Reports run at midnight'),
+        step(2, 'So the slowdown is at midnight', { dependsOn: [1] }),
+        step(3, 'Reports actually run hourly', { isRevision: true, revisesThought: 1 }),
+      ];
+      const gates = parseCompletionGates('no-pending-revisions');
+
+      expect(evaluateCompletion(gates, history, {}, finish(4))).toEqual([
+        expect.objectContaining({ gate: 'no-pending-revisions', thoughts: [2] }),
+      ]);
+      expect(
+        evaluateCompletion(
+          gates,
+          [...history, step(4, 'The slowdown is hourly', { isRevision: true, revisesThought: 2 })],
+          {},
+          finish(5)
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('Server Integration', () => {
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+      process.env.DEEPMIND_COMPLETION_GATES = 'last-is-conclusion,branches-resolved';
+    });
+
+    afterEach(() => {
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+      delete process.env.DEEPMIND_COMPLETION_GATES;
+      delete process.env.DEEPMIND_COMPLETION_MODE;
+    });
+
+    it('should record a premature finish and list outstanding items in report mode', () => {
+      const server = new DarbotDeepmindServer();
+      server.processThought(step(1, 'Reports slow down checkout'));
+
+      const response = parse<ThoughtResponse>(
+        server.processThought(finish(2, { stage: undefined }))
+      );
+
+      expect(response.thoughtHistoryLength).toBe(2);
+      expect(gatesOf(response.outstanding)).toEqual(['last-is-conclusion']);
+    });
+
+    it('should reject a premature finish in reject mode', () => {
+      process.env.DEEPMIND_COMPLETION_MODE = 'reject';
+      const server = new DarbotDeepmindServer();
+      server.processThought(step(1, 'Reports slow down checkout'));
+      server.processThought(
+        step(2, 'Try a replica', { branchFromThought: 1, branchId: 'replica' })
+      );
+
+      const rejected = server.processThought(finish(2));
+      server.manageBranch({ action: 'update', branchId: 'replica', status: 'selected' });
+      const accepted = server.processThought(finish(2));
+
+      expect(rejected.isError).toBe(true);
+      expect(parse<ErrorBody>(rejected)).toMatchObject({
+        status: 'failed',
+        outstanding: [expect.objectContaining({ gate: 'branches-resolved' })],
+      });
+      expect(parse<ThoughtResponse>(accepted).outstanding).toBeUndefined();
+    });
+  });
+});
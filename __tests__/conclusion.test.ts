@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DarbotDeepmindServer, DeepmindInput } from '../src/deepmind-server';
+import { DeepmindResourceProvider } from '../src/resources';
+import type { ConclusionRecord } from '../src/conclusion';
+import { ErrorBody, parse } from './support/fixtures';
+
+describe('Conclusions', () => {
+  let server: DarbotDeepmindServer;
+
+  /** What darbot_deepmind_conclude replies with */
+  type ConclusionBody = ConclusionRecord & { sessionId: string };
+
+  const step = (thoughtNumber: number, extra: Partial<DeepmindInput> = {}): DeepmindInput => ({
+    thought: `Step ${thoughtNumber}. More detail follows.`,
+    nextThoughtNeeded: true,
+    thoughtNumber,
+    totalThoughts: 5,
+    ...extra,
+  });
+
+  /** Mainline 1-3 with 3 revising 2, branches "fast" (abandoned) and "safe" off 1 */
+  const seed = (): void => {
+    server.processThought(step(1, { stage: 'problem-definition' }));
+    server.processThought(step(2));
+    server.processThought(step(3, { isRevision: true, revisesThought: 2 }));
+    server.processThought(step(4, { branchFromThought: 1, branchId: 'fast' }));
+    server.processThought(step(5, { branchFromThought: 1, branchId: 'safe' }));
+    server.manageBranch({
+      action: 'update',
+      branchId: 'fast',
+      status: 'abandoned',
+      rationale: 'Skips validation',
+    });
+  };
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    delete process.env.DEEPMIND_JOURNAL_DIR;
+  });
+
+  it('should store the answer, rejected branches and an outline of the mainline', () => {
+    seed();
+
+    const result = parse<ConclusionBody>(
+      server.conclude({ answer: 'Ship it', supportingThoughts: [3, 1, 3] })
+    );
+
+    expect(result).toMatchObject({
+      sessionId: 'default',
+      answer: 'Ship it',
+      supportingThoughts: [1, 3],
+      rejectedBranches: [{ branchId: 'fast', status: 'abandoned', rationale: 'Skips validation' }],
+      outline: [
+        { thoughtNumber: 1, stage: 'problem-definition', summary: 'Step 1.' },
+        { thoughtNumber: 3, summary: 'Step 3.' },
+      ],
+    });
+    expect(result.branchId).toBeUndefined();
+    expect(server.getSessionInfo()?.concludedAt).toBe(result.concludedAt);
+  });
+
+  it('should follow the selected branch', () => {
+    seed();
+    server.manageBranch({ action: 'update', branchId: 'safe', status: 'selected' });
+
+    const result = parse<ConclusionBody>(
+      server.conclude({ answer: 'Go safe', supportingThoughts: [5] })
+    );
+
+    expect(result.branchId).toBe('safe');
+    expect(result.outline.map((entry: { thoughtNumber: number }) => entry.thoughtNumber)).toEqual([
+      1, 5,
+    ]);
+  });
+
+  it('should reject superseded, unknown and conflicting citations', () => {
+    seed();
+
+    const superseded = server.conclude({ answer: 'x', supportingThoughts: [2, 9] });
+    const conflicting = server.conclude({
+      answer: 'x',
+      supportingThoughts: [5],
+      branchId: 'safe',
+      rejectedBranches: ['safe'],
+    });
+    const unknownBranch = server.conclude({
+      answer: 'x',
+      supportingThoughts: [1],
+      rejectedBranches: ['nope'],
+    });
+
+    expect(superseded.isError).toBe(true);
+    expect(parse<ErrorBody>(superseded).error).toContain('Thought 2 is superseded by revision 3.');
+    expect(parse<ErrorBody>(superseded).error).toContain('Thought 9 was never recorded.');
+    expect(parse<ErrorBody>(conflicting).error).toContain('both the path taken and rejected');
+    expect(parse<ErrorBody>(unknownBranch).error).toContain('Unknown branch "nope"');
+    expect(server.getConclusion()).toBeUndefined();
+  });
+
+  it('should check citations on the path taken when another lane reuses the number', () => {
+    seed();
+    server.processThought(step(2, { branchFromThought: 1, branchId: 'retry' }));
+
+    const mainline = server.conclude({ answer: 'x', supportingThoughts: [2] });
+    const retry = server.conclude({ answer: 'x', supportingThoughts: [2], branchId: 'retry' });
+
+    expect(parse<ErrorBody>(mainline).error).toContain('Thought 2 is superseded by revision 3.');
+    expect(retry.isError).toBeUndefined();
+  });
+
+  it('should be readable as a resource and included in exports', () => {
+    seed();
+    server.conclude({ answer: 'Ship it', supportingThoughts: [3] });
+    const provider = new DeepmindResourceProvider(server);
+
+    const resource = JSON.parse(
+      provider.readResource('deepmind://sessions/default/conclusion').text
+    );
+    const markdown = server.exportSession({ format: 'markdown' }).content[0].text;
+    const json = JSON.parse(server.exportSession({ format: 'json' }).content[0].text);
+
+    expect(resource).toMatchObject({ sessionId: 'default', answer: 'Ship it' });
+    expect(markdown).toContain('## Conclusion');
+    expect(markdown).toContain('- Rejected branch `fast` (abandoned): Skips validation');
+    expect(json.conclusion.supportingThoughts).toEqual([3]);
+  });
+
+  it('should archive a conclusion discarded by a rollback and bring it back on restore', () => {
+    seed();
+    server.conclude({ answer: 'Ship it', supportingThoughts: [3] });
+
+    const { archiveId } = parse<{ archiveId: string }>(
+      server.manageCheckpoint({ action: 'rollback', toThought: 2 })
+    );
+    expect(server.getConclusion()).toBeUndefined();
+
+    server.manageCheckpoint({ action: 'restore', archiveId });
+    expect(server.getConclusion()?.answer).toBe('Ship it');
+  });
+
+  it('should replay the conclusion from the journal', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-conclusion-'));
+    try {
+      process.env.DEEPMIND_JOURNAL_DIR = directory;
+      server = new DarbotDeepmindServer();
+      seed();
+      server.conclude({ answer: 'Ship it', supportingThoughts: [3] });
+
+      const restarted = new DarbotDeepmindServer();
+      await restarted.restore();
+
+      expect(restarted.getConclusion()).toEqual(server.getConclusion());
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DarbotDeepmindServer, ThoughtResponse } from '../src/deepmind-server';
+import { BranchRanking, recordBranchConfidence } from '../src/confidence';
+import { BranchRecord } from '../src/branches';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Confidence and Branch Ranking', () => {
+  let server: DarbotDeepmindServer;
+
+  const step = stepsOf(6);
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+  });
+
+  describe('Input', () => {
+    it('should echo confidence and evidence', () => {
+      const response = parse<ThoughtResponse>(
+        server.processThought(step(1, { confidence: 0.7, evidence: ['Error rate doubled'] }))
+      );
+
+      expect(response.confidence).toBe(0.7);
+      expect(response.evidence).toEqual(['Error rate doubled']);
+    });
+
+    it('should reject confidence outside 0-1', () => {
+      const result = server.processThought(step(1, { confidence: 1.5 }));
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('confidence');
+    });
+  });
+
+  describe('Aggregates', () => {
+    it('should keep running confidence statistics per branch', () => {
+      const record: BranchRecord = { branchId: 'a', branchFromThought: 1, status: 'open' };
+
+      recordBranchConfidence(record, step(2, { confidence: 0.4, evidence: ['x', 'y'] }));
+      recordBranchConfidence(record, step(3));
+      recordBranchConfidence(record, step(4, { confidence: 0.8, evidence: ['z'] }));
+
+      expect(record.confidence).toMatchObject({ scored: 2, latest: 0.8, min: 0.4, max: 0.8 });
+      expect(record.confidence?.mean).toBeCloseTo(0.6);
+      expect(record.evidenceCount).toBe(3);
+    });
+
+    it('should report aggregates in the branches list', () => {
+      server.processThought(step(1));
+      const response = parse<ThoughtResponse>(
+        server.processThought(step(2, { branchFromThought: 1, branchId: 'a', confidence: 0.5 }))
+      );
+
+      expect(response.branches[0].confidence).toMatchObject({ scored: 1, latest: 0.5 });
+    });
+  });
+
+  describe('Ranking', () => {
+    it('should order open branches by latest confidence, then depth', () => {
+      server.processThought(step(1));
+      server.processThought(step(2, { branchFromThought: 1, branchId: 'low', confidence: 0.9 }));
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'low', confidence: 0.3 }));
+      server.processThought(
+        step(2, { branchFromThought: 1, branchId: 'shallow', confidence: 0.8 })
+      );
+      server.processThought(step(2, { branchFromThought: 1, branchId: 'deep', confidence: 0.6 }));
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'deep', confidence: 0.8 }));
+      server.processThought(step(2, { branchFromThought: 1, branchId: 'unscored' }));
+      server.processThought(step(2, { branchFromThought: 1, branchId: 'dropped', confidence: 1 }));
+      server.manageBranch({ action: 'update', branchId: 'dropped', status: 'abandoned' });
+
+      const { ranking } = parse<{ ranking: BranchRanking[] }>(
+        server.manageBranch({ action: 'rank' })
+      );
+
+      expect(ranking.map((entry) => entry.branchId)).toEqual([
+        'deep',
+        'shallow',
+        'low',
+        'unscored',
+      ]);
+      expect(ranking[0]).toMatchObject({ rank: 1, confidence: 0.8, depth: 2 });
+      expect(ranking[0].meanConfidence).toBeCloseTo(0.7);
+      expect(ranking[3].confidence).toBeUndefined();
+    });
+  });
+});
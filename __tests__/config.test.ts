@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CONFIG_FILE_NAME,
+  ConfigChange,
+  ConfigError,
+  ConfigManager,
+  configureTools,
+  loadConfig,
+  readAuthDefaults,
+} from '../src/config';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+
+describe('Configuration', () => {
+  let directory: string;
+
+  const writeConfig = (contents: unknown, name = CONFIG_FILE_NAME): string => {
+    const file = path.join(directory, name);
+    fs.writeFileSync(file, JSON.stringify(contents));
+    return file;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('Loading', () => {
+    it('should layer the file under the environment and flags', () => {
+      writeConfig({
+        logging: { level: 'debug', format: 'json', thoughtStyle: 'compact' },
+        limits: {
+          completionGates: ['branches-resolved', 'hypotheses-verified'],
+          session: { maxThoughts: 50 },
+        },
+      });
+
+      const config = loadConfig(['--thought-style=plain'], { LOG_FORMAT: 'text' }, directory);
+
+      expect(config.file).toBe(path.join(directory, CONFIG_FILE_NAME));
+      expect(config.env).toMatchObject({
+        LOG_LEVEL: 'debug',
+        LOG_FORMAT: 'text',
+        DEEPMIND_THOUGHT_STYLE: 'plain',
+        DEEPMIND_COMPLETION_GATES: 'branches-resolved,hypotheses-verified',
+        DEEPMIND_SESSION_MAX_THOUGHTS: '50',
+      });
+    });
+
+    it('should read a file named by flag or environment, and only allow the default to be missing', () => {
+      const named = writeConfig({ auth: { mode: 'device-code' } }, 'team.json');
+
+      expect(loadConfig([], {}, directory)).toEqual({ env: {}, descriptions: {} });
+      expect(loadConfig(['--config', 'team.json'], {}, directory).file).toBe(named);
+      expect(loadConfig([], { DEEPMIND_CONFIG: named }, directory).env).toMatchObject({
+        DEEPMIND_AUTH_MODE: 'device-code',
+      });
+      expect(() => loadConfig(['--config', 'missing.json'], {}, directory)).toThrow(ConfigError);
+    });
+
+    it('should reject malformed JSON, unknown keys and bad values', () => {
+      writeConfig({ logging: { levle: 'debug' }, limits: { maxSessions: -1 } });
+      expect(() => loadConfig([], {}, directory)).toThrow(
+        /logging: Unrecognized key: "levle".*limits\.maxSessions/
+      );
+
+      fs.writeFileSync(path.join(directory, CONFIG_FILE_NAME), '{ "logging": ');
+      expect(() => loadConfig([], {}, directory)).toThrow(ConfigError);
+    });
+  });
+
+  describe('Tools and Auth', () => {
+    const tools = [
+      { name: 'darbot_deepmind', description: 'Think' },
+      { name: 'darbot_deepmind_export', description: 'Export' },
+      { name: 'microsoft_auth', description: 'Sign in' },
+    ];
+
+    it('should drop disabled tools and replace descriptions', () => {
+      writeConfig({
+        tools: {
+          enabled: ['darbot_deepmind', 'microsoft_auth'],
+          descriptions: { darbot_deepmind: 'Think step by step' },
+        },
+      });
+
+      expect(configureTools(tools, loadConfig([], {}, directory))).toEqual([
+        { name: 'darbot_deepmind', description: 'Think step by step' },
+        { name: 'microsoft_auth', description: 'Sign in' },
+      ]);
+      expect(
+        configureTools(tools, loadConfig(['--tools', 'darbot_deepmind_export'], {}, directory))
+      ).toEqual([{ name: 'darbot_deepmind_export', description: 'Export' }]);
+      expect(
+        configureTools(tools, loadConfig([], { DEEPMIND_TOOLS: 'unknown' }, directory))
+      ).toHaveLength(3);
+    });
+
+    it('should read auth defaults and skip invalid values', () => {
+      expect(
+        readAuthDefaults({
+          DEEPMIND_AUTH_MODE: 'silent',
+          DEEPMIND_AUTH_OUTPUT: 'carrier-pigeon',
+          DEEPMIND_AUTH_TIMEOUT_MINUTES: '5',
+          DEEPMIND_AUTH_ALIAS: 'corp',
+        })
+      ).toEqual({
+        mode: 'silent',
+        output: undefined,
+        timeoutMinutes: 5,
+        alias: 'corp',
+        clientId: undefined,
+        resourceId: undefined,
+        tenantId: undefined,
+      });
+    });
+  });
+
+  describe('Reloading', () => {
+    it('should apply safe settings and hold back those that need a restart', () => {
+      writeConfig({ limits: { maxThoughtChars: 100, maxSessions: 10 } });
+      const manager = new ConfigManager([], {}, directory);
+      const server = new DarbotDeepmindServer({
+        ...manager.config.env,
+        DISABLE_THOUGHT_LOGGING: 'true',
+      });
+      const changes: ConfigChange[] = [];
+      manager.onChange((change) => {
+        changes.push(change);
+        server.configure({ ...change.config.env, DISABLE_THOUGHT_LOGGING: 'true' });
+      });
+      const thought = {
+        thought: 'x'.repeat(50),
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        nextThoughtNeeded: true,
+      };
+      expect(server.processThought(thought).isError).toBeUndefined();
+
+      writeConfig({ limits: { maxThoughtChars: 20, maxSessions: 20 } });
+      const change = manager.reload();
+
+      expect(change?.applied).toEqual(['limits.maxThoughtChars']);
+      expect(change?.restartRequired).toEqual(['limits.maxSessions']);
+      expect(manager.config.env.DEEPMIND_MAX_SESSIONS).toBe('10');
+      expect(changes).toHaveLength(1);
+      expect(server.processThought(thought).isError).toBe(true);
+    });
+
+    it('should keep the current settings when an edit is invalid or changes nothing', () => {
+      writeConfig({ logging: { level: 'debug' } });
+      const manager = new ConfigManager(['--log-level', 'error'], {}, directory);
+
+      writeConfig({ logging: { level: 'warning' } });
+      expect(manager.reload()).toBeUndefined();
+
+      writeConfig({ logging: { level: 'loud' } });
+      expect(() => manager.reload()).toThrow(ConfigError);
+      expect(manager.config.env.LOG_LEVEL).toBe('error');
+    });
+
+    it('should pick up edits to the watched file', async () => {
+      writeConfig({ tools: { descriptions: { darbot_deepmind: 'Old' } } });
+      const manager = new ConfigManager([], {}, directory);
+      const reloaded = new Promise<ConfigChange>((resolve) => manager.onChange(resolve));
+      const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const stop = manager.watch(20);
+
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        writeConfig({ tools: { descriptions: { darbot_deepmind: 'Updated description' } } });
+
+        const change = await reloaded;
+        expect(change.applied).toEqual(['tools.descriptions']);
+        expect(change.config.descriptions).toEqual({ darbot_deepmind: 'Updated description' });
+      } finally {
+        stop();
+        write.mockRestore();
+      }
+    });
+  });
+});
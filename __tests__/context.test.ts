@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DarbotDeepmindServer, ThoughtResponse } from '../src/deepmind-server';
+import { parse, stepsOf } from './support/fixtures';
+
+describe('Rolling Summary', () => {
+  let server: DarbotDeepmindServer;
+
+  const step = stepsOf(8);
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    delete process.env.DEEPMIND_CONTEXT_WINDOW;
+  });
+
+  it('should leave the summary out by default', () => {
+    expect(parse<ThoughtResponse>(server.processThought(step(1))).context).toBeUndefined();
+  });
+
+  it('should summarize recent thoughts, open branches and unresolved hypotheses', () => {
+    server.processThought(step(1, { contextWindow: 2 }));
+    server.processThought(
+      step(2, { thought: 'Hypothesis: the cache is cold', stage: 'hypothesis' })
+    );
+    server.processThought(step(3, { branchFromThought: 2, branchId: 'warm', confidence: 0.6 }));
+    server.processThought(
+      step(4, { thought: 'Step 4 replaces step 1', isRevision: true, revisesThought: 1 })
+    );
+    const { context } = parse<ThoughtResponse>(server.processThought(step(5)));
+
+    expect(context).toEqual({
+      recentThoughts: [
+        { thoughtNumber: 2, stage: 'hypothesis', summary: 'Hypothesis: the cache is cold' },
+        { thoughtNumber: 5, summary: 'Step 5' },
+      ],
+      omittedThoughts: 1,
+      openBranches: [
+        {
+          branchId: 'warm',
+          branchFromThought: 2,
+          thoughtCount: 1,
+          confidence: 0.6,
+          lastThought: { thoughtNumber: 3, branchId: 'warm', summary: 'Step 3' },
+        },
+      ],
+      unresolvedHypotheses: [
+        { thoughtNumber: 2, stage: 'hypothesis', summary: 'Hypothesis: the cache is cold' },
+      ],
+    });
+  });
+
+  it('should follow the lane of the latest thought', () => {
+    server.processThought(step(1, { contextWindow: 5 }));
+    server.processThought(step(2));
+    const { context } = parse<ThoughtResponse>(
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'alt' }))
+    );
+
+    expect(context?.branchId).toBe('alt');
+    expect(
+      context?.recentThoughts.map((entry: { thoughtNumber: number }) => entry.thoughtNumber)
+    ).toEqual([1, 3]);
+  });
+
+  it('should use the environment default until a session turns it off', () => {
+    process.env.DEEPMIND_CONTEXT_WINDOW = '3';
+    server = new DarbotDeepmindServer();
+
+    expect(
+      parse<ThoughtResponse>(server.processThought(step(1))).context?.recentThoughts
+    ).toHaveLength(1);
+    expect(
+      parse<ThoughtResponse>(server.processThought(step(2, { contextWindow: 0 }))).context
+    ).toBeUndefined();
+    expect(parse<ThoughtResponse>(server.processThought(step(3))).context).toBeUndefined();
+  });
+});
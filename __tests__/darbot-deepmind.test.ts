@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
 
 // Mock the MCP SDK
 jest.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
@@ -367,4 +368,160 @@ describe('Darbot Deepmind MCP Server', () => {
       expect(branchStep!.branchId).toBeDefined();
     });
   });
+  describe('Session Isolation', () => {
+    const parse = (result: { content: Array<{ text: string }> }) =>
+      JSON.parse(result.content[0].text);
+
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    });
+
+    it('should keep history and branches separate per session', () => {
+      const server = new DarbotDeepmindServer();
+
+      server.processThought({
+        thought: 'Session A, step 1',
+        nextThoughtNeeded: true,
+        thoughtNumber: 1,
+        totalThoughts: 3,
+        sessionId: 'a',
+      });
+      server.processThought({
+        thought: 'Session A, branch',
+        nextThoughtNeeded: true,
+        thoughtNumber: 2,
+        totalThoughts: 3,
+        branchFromThought: 1,
+        branchId: 'alt',
+        sessionId: 'a',
+      });
+      const response = parse(
+        server.processThought({
+          thought: 'Session B, step 1',
+          nextThoughtNeeded: true,
+          thoughtNumber: 1,
+          totalThoughts: 2,
+          sessionId: 'b',
+        })
+      );
+
+      expect(response.sessionId).toBe('b');
+      expect(response.thoughtHistoryLength).toBe(1);
+      expect(response.branches).toEqual([]);
+      expect(server.getThoughtHistory('a')).toHaveLength(2);
+      expect(Object.keys(server.getBranches('a'))).toEqual(['alt']);
+      expect(server.getSessionIds().sort()).toEqual(['a', 'b']);
+    });
+
+    it('should use the default session when sessionId is omitted', () => {
+      const server = new DarbotDeepmindServer();
+
+      const response = parse(
+        server.processThought({
+          thought: 'No session given',
+          nextThoughtNeeded: false,
+          thoughtNumber: 1,
+          totalThoughts: 1,
+        })
+      );
+
+      expect(response.sessionId).toBe('default');
+      expect(server.getThoughtHistory()).toHaveLength(1);
+    });
+
+    it('should reject malformed session identifiers', () => {
+      const server = new DarbotDeepmindServer();
+
+      const result = server.processThought({
+        thought: 'Bad session',
+        nextThoughtNeeded: true,
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        sessionId: '../etc',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(parse(result).error).toContain('sessionId');
+    });
+
+    it('should clear a single session or all sessions', () => {
+      const server = new DarbotDeepmindServer();
+      const base = { thought: 'Step', nextThoughtNeeded: true, thoughtNumber: 1, totalThoughts: 1 };
+
+      server.processThought({ ...base, sessionId: 'a' });
+      server.processThought({ ...base, sessionId: 'b' });
+      server.clearHistory('a');
+
+      expect(server.getSessionIds()).toEqual(['b']);
+
+      server.clearHistory();
+
+      expect(server.getSessionIds()).toEqual([]);
+    });
+  });
+  describe('Hypothesis Tracking', () => {
+    const parse = (result: { content: Array<{ text: string }> }) =>
+      JSON.parse(result.content[0].text);
+    const step = (thoughtNumber: number, extra: Record<string, unknown> = {}) => ({
+      thought: `Step ${thoughtNumber}`,
+      nextThoughtNeeded: true,
+      thoughtNumber,
+      totalThoughts: 5,
+      ...extra,
+    });
+
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    });
+
+    it('should report hypotheses that are still unverified', () => {
+      const server = new DarbotDeepmindServer();
+
+      server.processThought(step(1, { stage: 'analysis' }));
+      server.processThought(step(2, { stage: 'hypothesis' }));
+      const response = parse(server.processThought(step(3, { stage: 'hypothesis' })));
+
+      expect(response.stage).toBe('hypothesis');
+      expect(response.unverifiedHypotheses).toEqual([2, 3]);
+    });
+
+    it('should resolve hypotheses with a conclusive verdict', () => {
+      const server = new DarbotDeepmindServer();
+
+      server.processThought(step(1, { stage: 'hypothesis' }));
+      server.processThought(step(2, { stage: 'hypothesis' }));
+      const inconclusive = parse(
+        server.processThought(step(3, { verifiesThought: 1, verdict: 'inconclusive' }))
+      );
+      const confirmed = parse(
+        server.processThought(step(4, { verifiesThought: 1, verdict: 'confirmed' }))
+      );
+
+      expect(inconclusive.stage).toBe('verification');
+      expect(inconclusive.unverifiedHypotheses).toEqual([1, 2]);
+      expect(confirmed.verdict).toBe('confirmed');
+      expect(confirmed.unverifiedHypotheses).toEqual([2]);
+    });
+
+    it('should reject verification of thoughts that are not hypotheses', () => {
+      const server = new DarbotDeepmindServer();
+
+      server.processThought(step(1, { stage: 'analysis' }));
+      const result = server.processThought(step(2, { verifiesThought: 1, verdict: 'refuted' }));
+
+      expect(result.isError).toBe(true);
+      expect(parse(result).error).toContain('Thought 1 is not a recorded hypothesis');
+    });
+
+    it('should reject inconsistent stage fields', () => {
+      const server = new DarbotDeepmindServer();
+      server.processThought(step(1, { stage: 'hypothesis' }));
+
+      const verdictOnly = server.processThought(step(2, { verdict: 'confirmed' }));
+      const wrongStage = server.processThought(step(2, { stage: 'analysis', verifiesThought: 1 }));
+
+      expect(parse(verdictOnly).error).toContain('verifiesThought is required');
+      expect(parse(wrongStage).error).toContain('only valid on verification thoughts');
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { assertAcyclic, findStaleThoughts } from '../src/dependencies';
+import { DarbotDeepmindServer, ThoughtResponse } from '../src/deepmind-server';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Thought Dependencies', () => {
+  const step = stepsOf(6);
+
+  describe('Graph', () => {
+    it('should reject self-dependencies and cycles', () => {
+      const history = [step(1), step(2, { dependsOn: [1] }), step(3, { dependsOn: [2] })];
+
+      expect(() => assertAcyclic(history, step(4, { dependsOn: [4] }))).toThrow(
+        'cannot depend on itself'
+      );
+      expect(() => assertAcyclic(history, step(1, { dependsOn: [3] }))).toThrow(
+        'dependency cycle: 1 → 3 → 2 → 1'
+      );
+      expect(() => assertAcyclic(history, step(4, { dependsOn: [3, 1] }))).not.toThrow();
+    });
+
+    it('should mark transitive dependents of a revised thought stale', () => {
+      const history = [
+        step(1),
+        step(2, { dependsOn: [1] }),
+        step(3, { dependsOn: [2] }),
+        step(4),
+        step(5, { isRevision: true, revisesThought: 1 }),
+      ];
+
+      expect(findStaleThoughts(history)).toEqual([2, 3]);
+    });
+
+    it('should clear a stale thought once it is revised', () => {
+      const history = [
+        step(1),
+        step(2, { dependsOn: [1] }),
+        step(3, { dependsOn: [2] }),
+        step(4, { isRevision: true, revisesThought: 1 }),
+        step(5, { isRevision: true, revisesThought: 2, dependsOn: [4] }),
+      ];
+
+      expect(findStaleThoughts(history)).toEqual([3]);
+    });
+  });
+
+  describe('Server Integration', () => {
+    let server: DarbotDeepmindServer;
+
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+      server = new DarbotDeepmindServer();
+    });
+
+    afterEach(() => {
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+    });
+
+    it('should list stale thoughts after a premise is revised', () => {
+      server.processThought(step(1));
+      const dependent = parse<ThoughtResponse>(server.processThought(step(2, { dependsOn: [1] })));
+      const revised = parse<ThoughtResponse>(
+        server.processThought(step(3, { isRevision: true, revisesThought: 1 }))
+      );
+
+      expect(dependent).toMatchObject({ dependsOn: [1] });
+      expect(dependent.staleThoughts).toBeUndefined();
+      expect(revised.staleThoughts).toEqual([2]);
+    });
+
+    it('should refuse a thought that closes a cycle', () => {
+      server.processThought(step(1));
+      server.processThought(step(2, { dependsOn: [1] }));
+
+      const result = server.processThought(step(1, { dependsOn: [2] }));
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('dependency cycle');
+      expect(server.getThoughtHistory()).toHaveLength(2);
+    });
+
+    it('should reject unrecorded dependencies in strict mode', () => {
+      const result = server.processThought(step(1, { dependsOn: [7], validation: 'strict' }));
+
+      expect(parse<ErrorBody>(result).issues).toEqual([
+        'Cannot depend on thought 7: it comes after thought 1. Depend only on earlier thoughts.',
+      ]);
+    });
+
+    it('should reject missing and later dependencies in lenient mode', () => {
+      server.processThought(step(1));
+      server.processThought(step(3));
+
+      const missing = server.processThought(step(4, { dependsOn: [1, 2] }));
+      const later = server.processThought(step(4, { dependsOn: [5] }));
+
+      expect(parse<ErrorBody>(missing).issues).toEqual([
+        'Cannot depend on thought 2: it was never recorded. Recorded thoughts: 1, 3.',
+      ]);
+      expect(parse<ErrorBody>(later).issues).toEqual([
+        'Cannot depend on thought 5: it comes after thought 4. Depend only on earlier thoughts.',
+      ]);
+      expect(server.getThoughtHistory()).toHaveLength(2);
+    });
+  });
+});
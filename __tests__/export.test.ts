@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderJson, renderMarkdown, renderMermaid, SessionSnapshot } from '../src/export';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+
+describe('Session Export', () => {
+  const base = { nextThoughtNeeded: true, totalThoughts: 4 };
+  const snapshot: SessionSnapshot = {
+    sessionId: 'design',
+    thoughtHistory: [
+      { ...base, thought: 'Pick a database', thoughtNumber: 1 },
+      { ...base, thought: 'Postgres fits "relational" data', thoughtNumber: 2 },
+      {
+        ...base,
+        thought: 'Reconsider the scope',
+        thoughtNumber: 3,
+        isRevision: true,
+        revisesThought: 1,
+      },
+      {
+        ...base,
+        thought: 'Try SQLite instead',
+        thoughtNumber: 3,
+        branchFromThought: 2,
+        branchId: 'sqlite',
+      },
+    ],
+    branches: {},
+  };
+  snapshot.branches = { sqlite: [snapshot.thoughtHistory[3]] };
+
+  describe('Markdown', () => {
+    it('should nest revisions and branches under their targets', () => {
+      const markdown = renderMarkdown(snapshot);
+
+      expect(markdown).toContain('# Reasoning session `design`');
+      expect(markdown).toContain('- Branches: `sqlite`');
+      expect(markdown).toContain(
+        '- **Thought 1/4**: Pick a database\n  - **Revision 3/4 (revises 1)**'
+      );
+      expect(markdown).toContain('  - Branch `sqlite`\n    - **Thought 3/4**: Try SQLite instead');
+    });
+
+    it('should note an empty session', () => {
+      const markdown = renderMarkdown({ sessionId: 'empty', thoughtHistory: [], branches: {} });
+
+      expect(markdown).toContain('_No thoughts recorded._');
+    });
+  });
+
+  describe('JSON', () => {
+    it('should dump the full history and branches', () => {
+      const dump = JSON.parse(renderJson(snapshot));
+
+      expect(dump.sessionId).toBe('design');
+      expect(dump.thoughtHistory).toHaveLength(4);
+      expect(dump.branches.sqlite).toHaveLength(1);
+    });
+  });
+
+  describe('Mermaid', () => {
+    it('should draw sequence, revision and branch edges', () => {
+      const mermaid = renderMermaid(snapshot);
+
+      expect(mermaid.startsWith('flowchart TD\n')).toBe(true);
+      expect(mermaid).toContain('t0 --> t1');
+      expect(mermaid).toContain('t1 --> t2');
+      expect(mermaid).toContain('t2 -. revises .-> t0');
+      expect(mermaid).toContain('t1 -- "branch sqlite" --> t3');
+      expect(mermaid).toContain('#quot;relational#quot;');
+    });
+
+    it('should fork a nested branch from its thought in the parent branch', () => {
+      const mermaid = renderMermaid({
+        sessionId: 'nested',
+        thoughtHistory: [
+          { ...base, thought: 'Pick a database', thoughtNumber: 1 },
+          { ...base, thought: 'Use Postgres', thoughtNumber: 2 },
+          {
+            ...base,
+            thought: 'Use SQLite',
+            thoughtNumber: 2,
+            branchFromThought: 1,
+            branchId: 'lite',
+          },
+          {
+            ...base,
+            thought: 'Embed it in the app',
+            thoughtNumber: 3,
+            branchFromThought: 2,
+            branchId: 'embedded',
+            parentBranchId: 'lite',
+          },
+        ],
+        branches: {},
+      });
+
+      expect(mermaid).toContain('t2 -- "branch embedded" --> t3');
+      expect(mermaid).not.toContain('t1 -- "branch embedded"');
+    });
+  });
+
+  describe('Export Tool', () => {
+    it('should export a recorded session', () => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+      const server = new DarbotDeepmindServer();
+      server.processThought({ ...base, thought: 'Only step', thoughtNumber: 1, sessionId: 's1' });
+
+      const result = server.exportSession({ sessionId: 's1', format: 'json' });
+
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0].text).thoughtHistory).toHaveLength(1);
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+    });
+
+    it('should fail for an unknown session', () => {
+      const server = new DarbotDeepmindServer();
+
+      const result = server.exportSession({ sessionId: 'missing' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unknown session: missing');
+    });
+  });
+});
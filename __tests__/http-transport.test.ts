@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  HttpServerHandle,
+  checkRequestOrigin,
+  parseTransportOptions,
+  startHttpServer,
+} from '../src/http-transport';
+
+describe('HTTP Transport', () => {
+  describe('Options', () => {
+    it('should default to stdio on loopback', () => {
+      expect(parseTransportOptions([], {})).toEqual({
+        transport: 'stdio',
+        host: '127.0.0.1',
+        port: 3000,
+        adminHost: '127.0.0.1',
+      });
+    });
+
+    it('should let flags override the environment', () => {
+      const options = parseTransportOptions(['--transport', 'http', '--port=8080'], {
+        MCP_TRANSPORT: 'stdio',
+        MCP_PORT: '9000',
+        MCP_ALLOWED_HOSTS: 'mcp.internal, gateway',
+      });
+
+      expect(options).toMatchObject({
+        transport: 'http',
+        port: 8080,
+        allowedHosts: ['mcp.internal', 'gateway'],
+      });
+    });
+
+    it('should reject unknown transports and missing values', () => {
+      expect(() => parseTransportOptions(['--transport', 'carrier-pigeon'], {})).toThrow();
+      expect(() => parseTransportOptions(['--port'], {})).toThrow('Missing value for --port');
+    });
+  });
+
+  describe('DNS Rebinding Protection', () => {
+    const options = parseTransportOptions(['--transport', 'http'], {});
+
+    it('should accept loopback hosts and origins', () => {
+      expect(checkRequestOrigin({ host: 'localhost:3000' }, options)).toBeUndefined();
+      expect(
+        checkRequestOrigin({ host: '[::1]:3000', origin: 'http://127.0.0.1:5173' }, options)
+      ).toBeUndefined();
+    });
+
+    it('should reject foreign hosts and origins', () => {
+      expect(checkRequestOrigin({ host: 'evil.example:3000' }, options)).toBe(
+        'Host not allowed: evil.example:3000'
+      );
+      expect(
+        checkRequestOrigin({ host: 'localhost:3000', origin: 'https://evil.example' }, options)
+      ).toBe('Origin not allowed: https://evil.example');
+    });
+
+    it('should honor configured hosts and origins', () => {
+      const gateway = parseTransportOptions(
+        ['--host', '0.0.0.0', '--allowed-hosts', 'mcp.internal'],
+        { MCP_ALLOWED_ORIGINS: 'https://ide.internal' }
+      );
+
+      expect(
+        checkRequestOrigin({ host: 'mcp.internal', origin: 'https://ide.internal' }, gateway)
+      ).toBeUndefined();
+      expect(checkRequestOrigin({ host: '0.0.0.0:3000' }, gateway)).toBeDefined();
+    });
+  });
+
+  describe('Server', () => {
+    let handle: HttpServerHandle;
+    let created: number;
+    let clock: number;
+
+    const initialize = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'raw', version: '1.0.0' },
+      },
+    });
+
+    const createServer = (): Server => {
+      const id = ++created;
+      const server = new Server(
+        { name: 'test', version: '1.0.0' },
+        { capabilities: { tools: {} } }
+      );
+      server.setRequestHandler(ListToolsRequestSchema, () => ({
+        tools: [{ name: `tool-${id}`, inputSchema: { type: 'object' } }],
+      }));
+      return server;
+    };
+
+    const rawRequest = (headers: http.OutgoingHttpHeaders, body = '{}'): Promise<number> =>
+      new Promise((resolve, reject) => {
+        const url = new URL(handle.url);
+        const req = http.request(
+          { hostname: url.hostname, port: url.port, path: '/mcp', method: 'POST', headers },
+          (res) => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode ?? 0));
+          }
+        );
+        req.on('error', reject);
+        req.end(body);
+      });
+
+    beforeEach(async () => {
+      created = 0;
+      clock = 0;
+      handle = await startHttpServer(
+        createServer,
+        parseTransportOptions(['--transport', 'http', '--port', '0'], {
+          MCP_SESSION_IDLE_MINUTES: '1',
+        }),
+        () => clock
+      );
+    });
+
+    afterEach(async () => {
+      await handle.close();
+    });
+
+    it('should give each Streamable HTTP client its own session', async () => {
+      const first = new Client({ name: 'first', version: '1.0.0' });
+      const second = new Client({ name: 'second', version: '1.0.0' });
+      await first.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)));
+      await second.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)));
+
+      expect((await first.listTools()).tools[0].name).toBe('tool-1');
+      expect((await second.listTools()).tools[0].name).toBe('tool-2');
+      expect(handle.sessionCount()).toBe(2);
+
+      await first.close();
+      await second.close();
+    });
+
+    it('should serve clients over the SSE fallback', async () => {
+      const client = new Client({ name: 'legacy', version: '1.0.0' });
+      await client.connect(new SSEClientTransport(new URL(`${handle.url}/sse`)));
+
+      expect((await client.listTools()).tools).toHaveLength(1);
+      expect(handle.sessionCount()).toBe(1);
+
+      await client.close();
+    });
+
+    it('should refuse rebinding attempts and unknown sessions', async () => {
+      const url = new URL(handle.url);
+
+      expect(await rawRequest({ Host: `attacker.example:${url.port}` })).toBe(403);
+      expect(await rawRequest({ Host: url.host, Origin: 'https://attacker.example' })).toBe(403);
+      expect(await rawRequest({ Host: url.host, 'Mcp-Session-Id': 'missing' })).toBe(404);
+      expect(await rawRequest({ Host: url.host })).toBe(400);
+      expect(created).toBe(0);
+    });
+
+    it('should close the server of a refused initialize request', async () => {
+      const url = new URL(handle.url);
+      const headers = { Host: url.host, 'Content-Type': 'application/json' };
+
+      expect(await rawRequest({ ...headers, Accept: 'application/json' }, initialize)).toBe(406);
+      expect(created).toBe(1);
+      expect(handle.sessionCount()).toBe(0);
+    });
+
+    it('should close Streamable HTTP sessions left idle', async () => {
+      const url = new URL(handle.url);
+      const headers = {
+        Host: url.host,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      };
+
+      expect(await rawRequest(headers, initialize)).toBe(200);
+      clock += 30 * 1000;
+      await rawRequest({ Host: url.host });
+      expect(handle.sessionCount()).toBe(1);
+
+      clock += 60 * 1000;
+      await rawRequest({ Host: url.host });
+      expect(handle.sessionCount()).toBe(0);
+    });
+  });
+});
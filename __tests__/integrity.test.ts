@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { assertReferentialIntegrity, IntegrityError } from '../src/integrity';
+import { DarbotDeepmindServer, DeepmindInput } from '../src/deepmind-server';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Referential Integrity', () => {
+  const step = stepsOf(5);
+  const history = [step(1), step(2), step(3)];
+
+  const issuesFor = (
+    input: DeepmindInput,
+    branches: Record<string, DeepmindInput[]> = {},
+    recorded: DeepmindInput[] = history
+  ): string[] => {
+    try {
+      assertReferentialIntegrity(input, recorded, branches);
+      return [];
+    } catch (error) {
+      expect(error).toBeInstanceOf(IntegrityError);
+      return (error as IntegrityError).issues;
+    }
+  };
+
+  describe('Revisions', () => {
+    it('should reject revisions of thoughts that were never recorded', () => {
+      const issues = issuesFor(step(4, { isRevision: true, revisesThought: 7 }));
+
+      expect(issues).toEqual([
+        'Cannot revise thought 7: it was never recorded. Recorded thoughts: 1, 2, 3.',
+      ]);
+    });
+
+    it('should require isRevision and revisesThought together', () => {
+      expect(issuesFor(step(4, { isRevision: true }))[0]).toContain('revisesThought is missing');
+      expect(issuesFor(step(4, { revisesThought: 2 }))[0]).toContain('isRevision is not');
+    });
+  });
+
+  describe('Branches', () => {
+    it('should reject branches from unrecorded thoughts', () => {
+      const issues = issuesFor(step(10, { branchFromThought: 9, branchId: 'alt' }));
+
+      expect(issues[0]).toBe(
+        'Cannot branch from thought 9: it was never recorded. Recorded thoughts: 1, 2, 3.'
+      );
+    });
+
+    it('should reject reusing a branchId with a different fork point', () => {
+      const first = step(3, { branchFromThought: 2, branchId: 'alt' });
+      const issues = issuesFor(
+        step(4, { branchFromThought: 1, branchId: 'alt' }),
+        { alt: [first] },
+        [...history, first]
+      );
+
+      expect(issues).toContain(
+        'Branch "alt" already forks from thought 2; use branchFromThought 2 to continue it or choose a new branchId.'
+      );
+    });
+  });
+
+  describe('Numbering', () => {
+    it('should reject duplicate and skipped thought numbers', () => {
+      expect(issuesFor(step(2))).toEqual([
+        'Thought 2 is already recorded on the mainline; the next thought number is 4.',
+      ]);
+      expect(issuesFor(step(7))).toEqual([
+        'Thought 7 skips thoughts 4-6 on the mainline; the next thought number is 4.',
+      ]);
+    });
+
+    it('should number a new branch from its fork point', () => {
+      expect(issuesFor(step(3, { branchFromThought: 2, branchId: 'alt' }))).toEqual([]);
+    });
+  });
+
+  describe('Server Modes', () => {
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    });
+
+    afterEach(() => {
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+      delete process.env.DEEPMIND_VALIDATION_MODE;
+    });
+
+    it('should stay lenient by default', () => {
+      const server = new DarbotDeepmindServer();
+      server.processThought(step(1));
+
+      expect(server.processThought(step(5)).isError).toBeUndefined();
+    });
+
+    it('should enforce strict mode once a session opts in', () => {
+      const server = new DarbotDeepmindServer();
+      server.processThought(step(1, { validation: 'strict', sessionId: 'strict' }));
+      server.processThought(step(1, { sessionId: 'lenient' }));
+
+      const strict = server.processThought(step(3, { sessionId: 'strict' }));
+      const lenient = server.processThought(step(3, { sessionId: 'lenient' }));
+
+      expect(strict.isError).toBe(true);
+      expect(parse<ErrorBody>(strict).issues).toEqual([
+        'Thought 3 skips thought 2 on the mainline; the next thought number is 2.',
+      ]);
+      expect(lenient.isError).toBeUndefined();
+    });
+
+    it('should default to strict mode from the environment', () => {
+      process.env.DEEPMIND_VALIDATION_MODE = 'strict';
+      const server = new DarbotDeepmindServer();
+
+      const result = server.processThought(step(2, { isRevision: true, revisesThought: 1 }));
+
+      expect(result.isError).toBe(true);
+      expect(server.getThoughtHistory()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JOURNAL_FORMAT_VERSION, JournalError, ThoughtJournal } from '../src/journal';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+import { stepsOf } from './support/fixtures';
+
+describe('Thought Journal', () => {
+  let directory: string;
+
+  const thought = stepsOf(3);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-journal-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    delete process.env.DEEPMIND_JOURNAL_DIR;
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+  });
+
+  describe('Record Format', () => {
+    it('should append versioned records per session', () => {
+      const journal = new ThoughtJournal(directory);
+
+      journal.append('alpha', 'thought', thought(1));
+      journal.append('alpha', 'thought', thought(2));
+
+      const lines = fs.readFileSync(journal.fileFor('alpha'), 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(2);
+      const record = JSON.parse(lines[0]);
+      expect(record.v).toBe(JOURNAL_FORMAT_VERSION);
+      expect(record.type).toBe('thought');
+      expect(record.data).toEqual(thought(1));
+    });
+
+    it('should migrate unversioned records', () => {
+      const journal = new ThoughtJournal(directory);
+      fs.writeFileSync(journal.fileFor('legacy'), `${JSON.stringify(thought(1))}\n`);
+
+      const { records } = journal.read('legacy');
+
+      expect(records).toHaveLength(1);
+      expect(records[0].v).toBe(JOURNAL_FORMAT_VERSION);
+      expect(records[0].data).toEqual(thought(1));
+    });
+
+    it('should reject records from a newer format version', () => {
+      const journal = new ThoughtJournal(directory);
+      const future = { v: JOURNAL_FORMAT_VERSION + 1, type: 'thought', data: thought(1) };
+      fs.writeFileSync(journal.fileFor('future'), `${JSON.stringify(future)}\n`);
+
+      expect(() => journal.read('future')).toThrow(JournalError);
+    });
+  });
+
+  describe('Crash Recovery', () => {
+    it('should drop and trim a truncated last line', () => {
+      const journal = new ThoughtJournal(directory);
+      journal.append('alpha', 'thought', thought(1));
+      fs.appendFileSync(journal.fileFor('alpha'), '{"v":1,"type":"thou');
+
+      const result = journal.read('alpha');
+      journal.append('alpha', 'thought', thought(2));
+
+      expect(result.truncatedTail).toBe(true);
+      expect(result.records).toHaveLength(1);
+      expect(journal.read('alpha').records.map((r) => r.data)).toEqual([thought(1), thought(2)]);
+    });
+
+    it('should report corruption before the last line', () => {
+      const journal = new ThoughtJournal(directory);
+      fs.writeFileSync(
+        journal.fileFor('broken'),
+        `not json\n${JSON.stringify({ v: 1, type: 'thought', data: thought(2) })}\n`
+      );
+
+      expect(() => journal.read('broken')).toThrow('broken.jsonl:1: malformed JSON');
+    });
+  });
+
+  describe('Server Replay', () => {
+    it('should restore journaled sessions on startup', async () => {
+      process.env.DEEPMIND_JOURNAL_DIR = directory;
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+
+      const first = new DarbotDeepmindServer();
+      first.processThought({ ...thought(1), sessionId: 'plan' });
+      first.processThought({
+        ...thought(2),
+        branchFromThought: 1,
+        branchId: 'alt',
+        sessionId: 'plan',
+      });
+
+      const second = new DarbotDeepmindServer();
+      const restored = await second.restore();
+
+      expect(restored).toBe(1);
+      expect(second.getThoughtHistory('plan')).toHaveLength(2);
+      expect(Object.keys(second.getBranches('plan'))).toEqual(['alt']);
+    });
+
+    it('should remove the journal when a session is cleared', () => {
+      process.env.DEEPMIND_JOURNAL_DIR = directory;
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+
+      const server = new DarbotDeepmindServer();
+      server.processThought({ ...thought(1), sessionId: 'plan' });
+      server.clearHistory('plan');
+
+      expect(fs.existsSync(path.join(directory, 'plan.jsonl'))).toBe(false);
+    });
+
+    it('should refuse session ids that leave the journal directory', () => {
+      process.env.DEEPMIND_JOURNAL_DIR = directory;
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+      const journal = new ThoughtJournal(directory);
+      const server = new DarbotDeepmindServer();
+      const sessionId = '../outside/victim';
+
+      expect(() => journal.fileFor(sessionId)).toThrow(JournalError);
+      expect(() => journal.append(sessionId, 'thought', thought(1))).toThrow(JournalError);
+      for (const result of [
+        server.exportSession({ sessionId }),
+        server.resolveChain({ sessionId }),
+        server.queryHistory({ sessionId }),
+        server.manageBranch({ action: 'list', sessionId }),
+        server.manageCheckpoint({ action: 'create', sessionId, name: 'before' }),
+        server.conclude({ sessionId, answer: 'Done' }),
+      ]) {
+        expect(result.isError).toBe(true);
+      }
+      expect(fs.existsSync(path.join(directory, '..', 'outside'))).toBe(false);
+    });
+  });
+});
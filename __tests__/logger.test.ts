@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  isClientRecord,
+  LogManager,
+  LogRecord,
+  parseLogLevel,
+  readLogOptions,
+  logging,
+} from '../src/logger';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+
+describe('Logging', () => {
+  let output: string[];
+  const stream = { write: (text: string) => output.push(text) };
+  const now = () => new Date('2026-01-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    output = [];
+  });
+
+  describe('Options', () => {
+    it('should read levels and formats from the environment', () => {
+      expect(readLogOptions({})).toEqual({ level: 'info', format: 'text' });
+      expect(readLogOptions({ LOG_LEVEL: 'WARN', LOG_FORMAT: 'json' })).toEqual({
+        level: 'warning',
+        format: 'json',
+      });
+      expect(parseLogLevel('verbose')).toBeUndefined();
+    });
+  });
+
+  describe('Manager', () => {
+    it('should filter stderr output by level', () => {
+      const manager = new LogManager({ level: 'warning', format: 'text' }, stream, now);
+      const log = manager.logger('auth');
+
+      log.info('Executing authentication');
+      log.warning('azureauth reported a warning', { stderr: 'deprecated flag' });
+
+      expect(output).toEqual([
+        '2026-01-01T00:00:00.000Z WARNING [auth] azureauth reported a warning {"stderr":"deprecated flag"}\n',
+      ]);
+    });
+
+    it('should write one JSON object per line', () => {
+      const manager = new LogManager({ level: 'debug', format: 'json' }, stream, now);
+
+      manager.logger('deepmind').log('info', 'Recorded thought 1/3', { thoughtNumber: 1 }, 'box');
+
+      expect(output).toHaveLength(1);
+      expect(JSON.parse(output[0])).toEqual({
+        time: '2026-01-01T00:00:00.000Z',
+        level: 'info',
+        component: 'deepmind',
+        message: 'Recorded thought 1/3',
+        thoughtNumber: 1,
+      });
+    });
+
+    it('should hand every record to sinks until they are removed', () => {
+      const manager = new LogManager({ level: 'error', format: 'text' }, stream, now);
+      const records: LogRecord[] = [];
+      const remove = manager.addSink((record) => records.push(record));
+
+      manager.logger('server').debug('Starting');
+      remove();
+      manager.logger('server').debug('Stopping');
+
+      expect(output).toEqual([]);
+      expect(records.map((record) => record.message)).toEqual(['Starting']);
+    });
+
+    it('should only send clients records about their own sessions', () => {
+      const record = (extra: Partial<LogRecord>): LogRecord => ({
+        time: '2026-01-01T00:00:00.000Z',
+        level: 'warning',
+        component: 'deepmind',
+        message: 'Something happened',
+        data: { sessionId: 'mine' },
+        ...extra,
+      });
+      const sessions = new Set(['mine']);
+
+      expect(isClientRecord(record({}), sessions)).toBe(true);
+      expect(isClientRecord(record({ data: { sessionId: 'theirs' } }), sessions)).toBe(false);
+      expect(isClientRecord(record({ data: {} }), sessions)).toBe(false);
+      expect(isClientRecord(record({ component: 'auth' }), sessions)).toBe(false);
+      expect(isClientRecord(record({ level: 'debug' }), sessions)).toBe(false);
+    });
+  });
+
+  describe('Server Integration', () => {
+    afterEach(() => {
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+    });
+
+    it('should log recorded thoughts under the deepmind component', () => {
+      const records: LogRecord[] = [];
+      const remove = logging.addSink((record) => records.push(record));
+      const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+      try {
+        new DarbotDeepmindServer().processThought({
+          thought: 'Check the cache',
+          thoughtNumber: 1,
+          totalThoughts: 2,
+          nextThoughtNeeded: true,
+        });
+        process.env.DISABLE_THOUGHT_LOGGING = 'true';
+        new DarbotDeepmindServer().processThought({
+          thought: 'Unlogged',
+          thoughtNumber: 1,
+          totalThoughts: 1,
+          nextThoughtNeeded: true,
+        });
+      } finally {
+        write.mockRestore();
+        remove();
+      }
+
+      expect(records).toEqual([
+        expect.objectContaining({
+          level: 'info',
+          component: 'deepmind',
+          message: 'Recorded thought 1/2',
+          data: expect.objectContaining({ sessionId: 'default', thoughtNumber: 1 }),
+          detail: expect.stringContaining('Check the cache'),
+        }),
+      ]);
+    });
+  });
+});
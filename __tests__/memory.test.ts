@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryStore, RecallHit } from '../src/memory';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Long-term Memory', () => {
+  let directory: string;
+
+  const step = stepsOf(3);
+
+  /** What darbot_deepmind_recall replies with */
+  type RecallBody = { results: RecallHit[] };
+
+  const entry = (sessionId: string, answer: string) => ({
+    id: `${sessionId}@0`,
+    sessionId,
+    source: 'final-thought' as const,
+    answer,
+    insights: [],
+  });
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'deepmind-memory-'));
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+    delete process.env.DEEPMIND_MEMORY_DIR;
+    delete process.env.DEEPMIND_PROJECT_DIR;
+    delete process.env.DEEPMIND_JOURNAL_DIR;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('Store', () => {
+    it('should rank memories and keep projects apart', () => {
+      const store = new MemoryStore(directory, '/work/shop');
+      store.remember(entry('db', 'Use Postgres with logical replication for orders'));
+      store.remember(entry('cache', 'Cache product pages in Redis'));
+      const other = new MemoryStore(directory, '/work/blog');
+
+      const hits = store.recall({ query: 'which database for orders', limit: 5 });
+
+      expect(hits.map((hit) => hit.sessionId)).toEqual(['db']);
+      expect(hits[0].sessionUri).toBe('deepmind://sessions/db');
+      expect(other.recall({ query: 'postgres orders', limit: 5 })).toEqual([]);
+    });
+
+    it('should apply the retention limits', () => {
+      let now = Date.parse('2026-01-01T00:00:00Z');
+      const store = new MemoryStore(
+        directory,
+        '/work/shop',
+        { maxEntries: 2, maxAgeDays: 7 },
+        () => now
+      );
+
+      store.remember(entry('a', 'alpha'));
+      now += 60_000;
+      store.remember(entry('b', 'bravo'));
+      now += 60_000;
+      store.remember(entry('c', 'charlie'));
+      expect(store.entries().map((memory) => memory.sessionId)).toEqual(['b', 'c']);
+
+      now += 8 * 24 * 60 * 60 * 1000;
+      expect(store.entries()).toEqual([]);
+    });
+
+    it('should not let a final thought replace a conclusion', () => {
+      const store = new MemoryStore(directory, '/work/shop');
+      store.remember({ ...entry('s', 'Concluded answer'), source: 'conclusion' });
+      store.remember(entry('s', 'Final thought'));
+
+      expect(store.entries().map((memory) => memory.answer)).toEqual(['Concluded answer']);
+    });
+  });
+
+  describe('Server Integration', () => {
+    it('should remember finished sessions and recall them from a later server', () => {
+      process.env.DEEPMIND_MEMORY_DIR = directory;
+      process.env.DEEPMIND_PROJECT_DIR = '/work/shop';
+      const server = new DarbotDeepmindServer();
+      server.processThought(step(1, 'Orders need durable storage', { sessionId: 'db' }));
+      server.processThought(
+        step(2, 'Postgres handles the order volume', { sessionId: 'db', stage: 'conclusion' })
+      );
+      server.conclude({
+        sessionId: 'db',
+        answer: 'Store orders in Postgres',
+        supportingThoughts: [2],
+      });
+      server.processThought(
+        step(1, 'Serve images from a CDN', { sessionId: 'img', nextThoughtNeeded: false })
+      );
+
+      const later = new DarbotDeepmindServer();
+      const { results } = parse<RecallBody>(
+        later.recall({ query: 'where should orders be stored' })
+      );
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          sessionId: 'db',
+          source: 'conclusion',
+          answer: 'Store orders in Postgres',
+          insights: ['Postgres handles the order volume'],
+          conclusionUri: 'deepmind://sessions/db/conclusion',
+        }),
+      ]);
+      expect(parse<RecallBody>(later.recall({ query: 'images' })).results[0].sessionId).toBe('img');
+      expect(
+        parse<RecallBody>(later.recall({ query: 'images', excludeSessionId: 'img' })).results
+      ).toEqual([]);
+    });
+
+    it('should keep the memory id of a session replayed from its journal', async () => {
+      process.env.DEEPMIND_MEMORY_DIR = path.join(directory, 'memory');
+      process.env.DEEPMIND_JOURNAL_DIR = path.join(directory, 'journal');
+      const first = new DarbotDeepmindServer();
+      first.processThought(step(1, 'Orders need durable storage', { sessionId: 'db' }));
+      first.conclude({ sessionId: 'db', answer: 'Store orders in MySQL', supportingThoughts: [1] });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const second = new DarbotDeepmindServer();
+      await second.restore();
+      second.conclude({
+        sessionId: 'db',
+        answer: 'Store orders in Postgres',
+        supportingThoughts: [1],
+      });
+
+      const { results } = parse<RecallBody>(second.recall({ query: 'store orders' }));
+      expect(results.map((hit) => hit.answer)).toEqual(['Store orders in Postgres']);
+    });
+
+    it('should report that memory is disabled', () => {
+      const result = new DarbotDeepmindServer().recall({ query: 'anything' });
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('DEEPMIND_MEMORY_DIR');
+    });
+  });
+});
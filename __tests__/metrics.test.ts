@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DeepmindMetrics } from '../src/metrics';
+import { AdminServerHandle, startAdminServer } from '../src/admin';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+import { stepsOf } from './support/fixtures';
+
+describe('Metrics and Health', () => {
+  let server: DarbotDeepmindServer;
+  let clock: number;
+  let metrics: DeepmindMetrics;
+
+  const step = stepsOf(4);
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+    clock = 0;
+    metrics = new DeepmindMetrics(server, () => clock);
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+  });
+
+  describe('Metrics', () => {
+    it('should count tool calls and their latency', async () => {
+      await metrics.observeToolCall('darbot_deepmind', () => {
+        clock += 20;
+        return server.processThought(step(1));
+      });
+      await metrics.observeToolCall('darbot_deepmind', () => server.processThought({}));
+      await expect(
+        metrics.observeToolCall('darbot_deepmind_export', () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      const text = metrics.render();
+
+      expect(text).toContain(
+        'deepmind_tool_calls_total{tool="darbot_deepmind",outcome="success"} 1'
+      );
+      expect(text).toContain('deepmind_tool_calls_total{tool="darbot_deepmind",outcome="error"} 1');
+      expect(text).toContain(
+        'deepmind_tool_calls_total{tool="darbot_deepmind_export",outcome="error"} 1'
+      );
+      expect(text).toContain(
+        'deepmind_tool_call_duration_seconds_bucket{tool="darbot_deepmind",le="0.01"} 1'
+      );
+      expect(text).toContain(
+        'deepmind_tool_call_duration_seconds_bucket{tool="darbot_deepmind",le="0.05"} 2'
+      );
+      expect(text).toContain(
+        'deepmind_tool_call_duration_seconds_sum{tool="darbot_deepmind"} 0.02'
+      );
+    });
+
+    it('should count validation failures by reason', () => {
+      server.processThought({});
+      server.processThought(step(1, { validation: 'strict' }));
+      server.processThought(step(3));
+      server.exportSession({ sessionId: 'missing' });
+
+      const text = metrics.render();
+
+      expect(text).toContain('deepmind_validation_failures_total{reason="schema"} 1');
+      expect(text).toContain('deepmind_validation_failures_total{reason="integrity"} 1');
+      expect(text).toContain('deepmind_validation_failures_total{reason="rejected"} 1');
+      expect(text).toContain('deepmind_validation_failures_total{reason="budget"} 0');
+    });
+
+    it('should report live session contents and auth outcomes', () => {
+      server.processThought(step(1));
+      server.processThought(step(2, { isRevision: true, revisesThought: 1 }));
+      server.processThought(step(3, { branchFromThought: 1, branchId: 'alt' }));
+      server.processThought(step(1, { sessionId: 'other' }));
+      metrics.recordAuth('timeout');
+
+      const text = metrics.render();
+
+      expect(text).toContain('deepmind_sessions_active 2');
+      expect(text).toContain('deepmind_thoughts_stored 4');
+      expect(text).toContain('deepmind_revisions_stored 1');
+      expect(text).toContain('deepmind_branches_stored 1');
+      expect(text).toContain('deepmind_microsoft_auth_total{outcome="timeout"} 1');
+      expect(text).toContain('deepmind_microsoft_auth_total{outcome="success"} 0');
+    });
+  });
+
+  describe('Admin Endpoints', () => {
+    let admin: AdminServerHandle;
+    let ready: boolean;
+
+    beforeEach(async () => {
+      ready = false;
+      admin = await startAdminServer(
+        {
+          liveness: () => ({ running: true }),
+          readiness: () => ({ restored: ready }),
+          metrics: () => metrics.render(),
+        },
+        { host: '127.0.0.1', port: 0 }
+      );
+    });
+
+    afterEach(async () => {
+      await admin.close();
+    });
+
+    it('should reflect readiness in the status code', async () => {
+      const notReady = await fetch(`${admin.url}/readyz`);
+      expect(notReady.status).toBe(503);
+      expect(await notReady.json()).toEqual({
+        status: 'unavailable',
+        checks: { restored: false },
+      });
+
+      ready = true;
+      expect((await fetch(`${admin.url}/readyz`)).status).toBe(200);
+      expect((await fetch(`${admin.url}/healthz`)).status).toBe(200);
+    });
+
+    it('should serve Prometheus text and reject other routes', async () => {
+      server.processThought(step(1));
+
+      const response = await fetch(`${admin.url}/metrics`);
+
+      expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await response.text()).toContain('deepmind_thoughts_stored 1');
+      expect((await fetch(`${admin.url}/other`)).status).toBe(404);
+      expect((await fetch(`${admin.url}/metrics`, { method: 'POST' })).status).toBe(405);
+    });
+  });
+});
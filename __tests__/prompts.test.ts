@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getPrompt, listPrompts, REASONING_PLAYBOOKS } from '../src/prompts';
+
+describe('Reasoning Playbook Prompts', () => {
+  describe('Listing', () => {
+    it('should advertise every playbook with a required problem argument', () => {
+      const prompts = listPrompts();
+
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        'root-cause-analysis',
+        'hypothesis-verify',
+        'decision-matrix',
+        'pre-mortem',
+        'debugging-bisection',
+      ]);
+      prompts.forEach((prompt) => {
+        expect(prompt.arguments).toContainEqual(
+          expect.objectContaining({ name: 'problem', required: true })
+        );
+      });
+    });
+  });
+
+  describe('Rendering', () => {
+    it('should seed a session with the problem, session id and thought budget', () => {
+      const result = getPrompt('root-cause-analysis', {
+        problem: 'Nightly build fails intermittently',
+        sessionId: 'build-rca',
+      });
+
+      const text =
+        result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+      expect(result.messages[0].role).toBe('user');
+      expect(text).toContain('Problem: Nightly build fails intermittently');
+      expect(text).toContain('sessionId "build-rca"');
+      expect(text).toContain(`totalThoughts: ${REASONING_PLAYBOOKS[0].totalThoughts}`);
+    });
+
+    it('should generate a session id when none is given', () => {
+      const result = getPrompt('pre-mortem', { problem: 'Launch the new API' });
+
+      const text =
+        result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+      expect(text).toMatch(/sessionId "pre-mortem-[0-9a-f]{8}"/);
+    });
+
+    it('should include playbook-specific arguments', () => {
+      const result = getPrompt('decision-matrix', {
+        problem: 'Choose a queue',
+        options: 'Kafka, RabbitMQ, SQS',
+      });
+
+      const text =
+        result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+      expect(text).toContain('Kafka, RabbitMQ, SQS');
+    });
+
+    it('should name the stage fields in the hypothesis playbook', () => {
+      const result = getPrompt('hypothesis-verify', { problem: 'Checkout is slow' });
+
+      const text =
+        result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+      expect(text).toContain('stage "hypothesis"');
+      expect(text).toContain('verifiesThought');
+      expect(text).toContain('verdict');
+    });
+
+    it('should reject unknown prompts, missing problems and invalid session ids', () => {
+      expect(() => getPrompt('tarot', { problem: 'x' })).toThrow(McpError);
+      expect(() => getPrompt('pre-mortem', {})).toThrow('requires a problem argument');
+      expect(() => getPrompt('pre-mortem', { problem: 'x', sessionId: '../etc' })).toThrow(
+        'Invalid session id: ../etc'
+      );
+    });
+  });
+});
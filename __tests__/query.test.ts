@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { QueryPage } from '../src/query';
+import { scoreDocuments, snippet, tokenize } from '../src/search';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+import { ErrorBody, parse, stepsOf } from './support/fixtures';
+
+describe('Thought Query', () => {
+  describe('Search', () => {
+    it('should drop stop words and match word forms', () => {
+      expect(tokenize('Where did we decide on Postgres?')).toEqual(tokenize('deciding postgres'));
+    });
+
+    it('should rank documents with rarer and more frequent terms higher', () => {
+      const scores = scoreDocuments('postgres replication', [
+        'Use Postgres for storage',
+        'Postgres replication lag is the risk; replication needs monitoring',
+        'Cache sessions in Redis',
+      ]);
+
+      expect(scores[1]).toBeGreaterThan(scores[0]);
+      expect(scores[0]).toBeGreaterThan(0);
+      expect(scores[2]).toBe(0);
+    });
+
+    it('should cut snippets around the first match', () => {
+      const text = `${'filler words '.repeat(20)}we chose Postgres here ${'more text '.repeat(20)}`;
+
+      const excerpt = snippet(text, 'postgres', 60);
+
+      expect(excerpt.length).toBeLessThanOrEqual(60);
+      expect(excerpt).toContain('Postgres');
+      expect(excerpt.startsWith('…')).toBe(true);
+      expect(excerpt.endsWith('…')).toBe(true);
+      expect(snippet('Short thought', 'postgres')).toBe('Short thought');
+    });
+  });
+
+  describe('Server Integration', () => {
+    let server: DarbotDeepmindServer;
+
+    const step = stepsOf(8);
+
+    beforeEach(() => {
+      process.env.DISABLE_THOUGHT_LOGGING = 'true';
+      server = new DarbotDeepmindServer();
+      server.processThought(step(1, 'We need a datastore for orders', { stage: 'analysis' }));
+      server.processThought(step(2, 'Decided on Postgres for the order datastore'));
+      server.processThought(
+        step(3, 'MySQL would also work', { branchFromThought: 2, branchId: 'alt-2' })
+      );
+      server.processThought(
+        step(4, 'MySQL lacks the JSON operators we need', {
+          branchFromThought: 2,
+          branchId: 'alt-2',
+        })
+      );
+      server.processThought(
+        step(5, 'Postgres it is, with logical replication', {
+          isRevision: true,
+          revisesThought: 2,
+        })
+      );
+    });
+
+    afterEach(() => {
+      delete process.env.DISABLE_THOUGHT_LOGGING;
+    });
+
+    it('should rank keyword matches', () => {
+      const page = parse<QueryPage>(
+        server.queryHistory({ query: 'where did we decide on postgres' })
+      );
+
+      expect(page.results.map((hit: { thoughtNumber: number }) => hit.thoughtNumber)).toEqual([
+        2, 5,
+      ]);
+      expect(page.results[0]).toMatchObject({
+        index: 1,
+        snippet: 'Decided on Postgres for the order datastore',
+      });
+      expect(page.results[0].score).toBeGreaterThan(page.results[1].score ?? 0);
+    });
+
+    it('should filter by branch, revision, stage and thought range', () => {
+      const numbers = (input: Record<string, unknown>) =>
+        parse<QueryPage>(server.queryHistory(input)).results.map((hit) => hit.thoughtNumber);
+
+      expect(numbers({ branchId: 'alt-2', fromThought: 4 })).toEqual([4]);
+      expect(numbers({ isRevision: true })).toEqual([5]);
+      expect(numbers({ isRevision: false, toThought: 2 })).toEqual([1, 2]);
+      expect(numbers({ stage: 'analysis' })).toEqual([1]);
+    });
+
+    it('should paginate results', () => {
+      const first = parse<QueryPage>(server.queryHistory({ limit: 2 }));
+      const last = parse<QueryPage>(server.queryHistory({ limit: 2, offset: 4 }));
+
+      expect(first).toMatchObject({ total: 5, offset: 0, limit: 2, nextOffset: 2 });
+      expect(last.results).toHaveLength(1);
+      expect(last.nextOffset).toBeUndefined();
+    });
+
+    it('should reject unknown sessions', () => {
+      const result = server.queryHistory({ sessionId: 'missing', query: 'postgres' });
+
+      expect(result.isError).toBe(true);
+      expect(parse<ErrorBody>(result).error).toContain('Unknown session: missing');
+    });
+  });
+});
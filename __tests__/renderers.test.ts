@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import {
+  displayWidth,
+  parseThoughtStyle,
+  renderThought,
+  thoughtDepth,
+  wrapText,
+} from '../src/renderers';
+import { DarbotDeepmindServer } from '../src/deepmind-server';
+import { LogRecord, logging } from '../src/logger';
+import { stepsOf } from './support/fixtures';
+
+describe('Thought Renderers', () => {
+  const step = stepsOf(5);
+  const plain = { width: 40, color: false, depth: 0 };
+
+  describe('Width and Wrapping', () => {
+    it('should count wide characters and emoji as two columns and ignore colours', () => {
+      expect(displayWidth('abc')).toBe(3);
+      expect(displayWidth('日本語')).toBe(6);
+      expect(displayWidth('🧠 ok')).toBe(5);
+      expect(displayWidth('👩‍💻')).toBe(2);
+      expect(displayWidth('é')).toBe(1);
+      expect(displayWidth('\x1b[33mwarn\x1b[39m')).toBe(4);
+    });
+
+    it('should wrap on words, keep line breaks and break long words', () => {
+      expect(wrapText('the quick brown fox jumps', 10)).toEqual([
+        'the quick',
+        'brown fox',
+        'jumps',
+      ]);
+      expect(wrapText('first\n\nsecond', 20)).toEqual(['first', '', 'second']);
+      expect(wrapText('abcdefghijkl', 5)).toEqual(['abcde', 'fghij', 'kl']);
+      expect(wrapText('日本語のテキスト', 6)).toEqual(['日本語', 'のテキ', 'スト']);
+    });
+  });
+
+  describe('Styles', () => {
+    it('should keep every box line the same width', () => {
+      const text = renderThought(
+        step(1, {
+          thought: 'A long thought with 日本語 text and 🚀 emoji that must wrap\nover lines',
+        }),
+        'box',
+        plain
+      );
+      const lines = text.split('\n');
+
+      expect(lines.length).toBeGreaterThan(5);
+      expect(lines[1]).toContain('⚡ Thought 1/5');
+      const widths = new Set(lines.map((line) => displayWidth(line)));
+      expect(widths.size).toBe(1);
+      expect([...widths][0]).toBeLessThanOrEqual(40);
+    });
+
+    it('should cut compact lines to the width', () => {
+      const text = renderThought(step(2, { thought: 'word '.repeat(40) }), 'compact', plain);
+
+      expect(text.startsWith('⚡ 2/5 word word')).toBe(true);
+      expect(text.endsWith('…')).toBe(true);
+      expect(displayWidth(text)).toBe(40);
+    });
+
+    it('should render Markdown and plain text without decoration', () => {
+      const revision = step(3, {
+        thought: 'Recheck\nthe cache',
+        isRevision: true,
+        revisesThought: 1,
+        stage: 'verification',
+        verdict: 'refuted',
+      });
+
+      expect(renderThought(revision, 'markdown', { ...plain, depth: 1 })).toBe(
+        [
+          '  - **Revision 3/5** (revising thought 1) [verification: refuted]',
+          '    > Recheck',
+          '    > the cache',
+        ].join('\n')
+      );
+      expect(renderThought(revision, 'plain', { ...plain, depth: 1 })).toBe(
+        [
+          '└─ Revision 3/5 (revising thought 1)',
+          '   [verification: refuted]',
+          '     Recheck',
+          '     the cache',
+        ].join('\n')
+      );
+    });
+
+    it('should only accept known style names', () => {
+      expect(parseThoughtStyle(' Markdown ')).toBe('markdown');
+      expect(parseThoughtStyle('fancy')).toBeUndefined();
+      expect(parseThoughtStyle(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('Tree Layout', () => {
+    it('should nest branches of branches and revisions', () => {
+      const history = [
+        step(1),
+        step(2),
+        step(3, { branchFromThought: 2, branchId: 'alt' }),
+        step(4, { branchFromThought: 3, branchId: 'deeper', parentBranchId: 'alt' }),
+        step(5, {
+          isRevision: true,
+          revisesThought: 4,
+          branchId: 'deeper',
+          branchFromThought: 3,
+        }),
+        step(3),
+        step(4, { branchFromThought: 3, branchId: 'side' }),
+      ];
+
+      expect(history.map((thought) => thoughtDepth(history, thought))).toEqual([
+        0, 0, 1, 2, 3, 0, 1,
+      ]);
+      expect(renderThought(history[3], 'compact', { ...plain, width: 80, depth: 2 })).toBe(
+        '│  └─ 🚀 4/5 (from thought 3, ID: deeper) Step 4'
+      );
+    });
+  });
+
+  describe('Server Integration', () => {
+    afterEach(() => {
+      delete process.env.DEEPMIND_THOUGHT_STYLE;
+      delete process.env.DEEPMIND_THOUGHT_WIDTH;
+    });
+
+    it('should log thoughts in the configured style and width', () => {
+      process.env.DEEPMIND_THOUGHT_STYLE = 'compact';
+      process.env.DEEPMIND_THOUGHT_WIDTH = '24';
+      const records: LogRecord[] = [];
+      const remove = logging.addSink((record) => records.push(record));
+      const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+      try {
+        new DarbotDeepmindServer().processThought(
+          step(1, { thought: 'Inspect the slow query plan' })
+        );
+      } finally {
+        write.mockRestore();
+        remove();
+      }
+
+      expect(records.map((record) => record.detail)).toEqual(['⚡ 1/5 Inspect the slow…']);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DarbotDeepmindServer,
+  SessionChangedEvent,
+  ThoughtRecordedEvent,
+} from '../src/deepmind-server';
+import { DeepmindResourceProvider, SESSIONS_URI } from '../src/resources';
+import { stepsOf } from './support/fixtures';
+
+describe('Deepmind Resources', () => {
+  let server: DarbotDeepmindServer;
+  let provider: DeepmindResourceProvider;
+
+  const step = stepsOf(3);
+
+  beforeEach(() => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    server = new DarbotDeepmindServer();
+    provider = new DeepmindResourceProvider(server);
+  });
+
+  afterEach(() => {
+    delete process.env.DISABLE_THOUGHT_LOGGING;
+  });
+
+  describe('Listing', () => {
+    it('should list the session index and per-session resources', () => {
+      server.processThought(step(1, { sessionId: 'plan' }));
+
+      const uris = provider.listResources().map((resource) => resource.uri);
+
+      expect(uris).toEqual([
+        SESSIONS_URI,
+        'deepmind://sessions/plan',
+        'deepmind://sessions/plan/thoughts',
+      ]);
+    });
+
+    it('should advertise URI templates for individual thoughts', () => {
+      const templates = provider.listResourceTemplates().map((template) => template.uriTemplate);
+
+      expect(templates).toContain('deepmind://sessions/{sessionId}/thoughts/{thoughtNumber}');
+    });
+  });
+
+  describe('Reading', () => {
+    it('should read the session index', () => {
+      server.processThought(step(1, { sessionId: 'plan' }));
+
+      const contents = provider.readResource(SESSIONS_URI);
+
+      expect(contents.mimeType).toBe('application/json');
+      expect(JSON.parse(contents.text).sessions[0].sessionId).toBe('plan');
+    });
+
+    it('should not count reads as session activity', () => {
+      server = new DarbotDeepmindServer({
+        DISABLE_THOUGHT_LOGGING: 'true',
+        DEEPMIND_MAX_SESSIONS: '2',
+      });
+      provider = new DeepmindResourceProvider(server);
+      server.processThought(step(1, { sessionId: 'old' }));
+      server.processThought(step(1, { sessionId: 'new' }));
+
+      provider.listResources();
+      provider.readResource(SESSIONS_URI);
+      provider.readResource('deepmind://sessions/old');
+      server.processThought(step(1, { sessionId: 'third' }));
+
+      expect(server.getSessionIds()).toEqual(['new', 'third']);
+    });
+
+    it('should read a single thought by number', () => {
+      server.processThought(step(1, { sessionId: 'plan' }));
+      server.processThought(step(2, { sessionId: 'plan' }));
+
+      const body = JSON.parse(provider.readResource('deepmind://sessions/plan/thoughts/2').text);
+
+      expect(body.thoughtNumber).toBe(2);
+      expect(body.thoughts[0].thought).toBe('Step 2');
+    });
+
+    it('should reject unknown sessions and thoughts', () => {
+      server.processThought(step(1, { sessionId: 'plan' }));
+
+      expect(() => provider.readResource('deepmind://sessions/other')).toThrow(McpError);
+      expect(() => provider.readResource('deepmind://sessions/plan/thoughts/9')).toThrow(
+        'has no thought 9'
+      );
+      expect(() => provider.readResource('deepmind://elsewhere')).toThrow('Unknown resource');
+    });
+
+    it('should reject session ids the tools would not accept', () => {
+      for (const uri of [
+        'deepmind://sessions/..%2Foutside%2Fvictim',
+        'deepmind://sessions/%E0%A4%A/thoughts',
+      ]) {
+        expect(() => provider.readResource(uri)).toThrow('Invalid session id');
+        expect(() => provider.subscribe(uri)).toThrow(McpError);
+      }
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should report subscribed resources changed by a new thought', () => {
+      const events: ThoughtRecordedEvent[] = [];
+      server.onThoughtRecorded((event) => events.push(event));
+      provider.subscribe('deepmind://sessions/plan/thoughts');
+      provider.subscribe('deepmind://sessions/other/thoughts');
+
+      server.processThought(step(1, { sessionId: 'plan' }));
+
+      expect(events).toHaveLength(1);
+      expect(events[0].isNewSession).toBe(true);
+      expect(provider.changedResources(events[0])).toEqual(['deepmind://sessions/plan/thoughts']);
+    });
+
+    it('should stop reporting after unsubscribe', () => {
+      const events: ThoughtRecordedEvent[] = [];
+      server.onThoughtRecorded((event) => events.push(event));
+      provider.subscribe(SESSIONS_URI);
+      provider.unsubscribe(SESSIONS_URI);
+
+      server.processThought(step(1, { sessionId: 'plan' }));
+
+      expect(provider.changedResources(events[0])).toEqual([]);
+    });
+
+    it('should report resources changed by rollbacks, branch changes and conclusions', () => {
+      const events: SessionChangedEvent[] = [];
+      server.onSessionChanged((event) => events.push(event));
+      server.processThought(step(1, { sessionId: 'plan' }));
+      server.processThought(step(2, { sessionId: 'plan' }));
+      server.processThought(step(3, { sessionId: 'plan', branchFromThought: 1, branchId: 'alt' }));
+      provider.subscribe('deepmind://sessions/plan');
+      provider.subscribe('deepmind://sessions/plan/thoughts/2');
+      provider.subscribe('deepmind://sessions/plan/conclusion');
+
+      server.conclude({ sessionId: 'plan', answer: 'Done', supportingThoughts: [2] });
+      server.manageBranch({
+        action: 'update',
+        sessionId: 'plan',
+        branchId: 'alt',
+        status: 'abandoned',
+      });
+      server.manageCheckpoint({ action: 'rollback', sessionId: 'plan', toThought: 1 });
+
+      expect(events.map((event) => event.change)).toEqual(['conclusion', 'branch', 'rollback']);
+      expect(events.map((event) => provider.changedSessionResources(event))).toEqual([
+        ['deepmind://sessions/plan', 'deepmind://sessions/plan/conclusion'],
+        ['deepmind://sessions/plan'],
+        [
+          'deepmind://sessions/plan',
+          'deepmind://sessions/plan/thoughts/2',
+          'deepmind://sessions/plan/conclusion',
+        ],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_SESSION_ID, SessionStore } from '../src/session-store';
+
+describe('Session Store', () => {
+  const thought = {
+    thought: 'Analyzing the problem',
+    nextThoughtNeeded: true,
+    thoughtNumber: 1,
+    totalThoughts: 3,
+  };
+
+  describe('Session Creation', () => {
+    it('should create sessions on first access', () => {
+      const store = new SessionStore();
+
+      const session = store.get('alpha');
+
+      expect(session.id).toBe('alpha');
+      expect(session.thoughtHistory).toEqual([]);
+      expect(session.branches).toEqual({});
+      expect(session.counters).toEqual({ thoughts: 0, revisions: 0, branchThoughts: 0 });
+      expect(store.has('alpha')).toBe(true);
+    });
+
+    it('should fall back to the default session', () => {
+      const store = new SessionStore();
+
+      expect(store.get().id).toBe(DEFAULT_SESSION_ID);
+    });
+
+    it('should keep session state isolated', () => {
+      const store = new SessionStore();
+
+      store.get('alpha').thoughtHistory.push(thought);
+
+      expect(store.get('alpha').thoughtHistory).toHaveLength(1);
+      expect(store.get('beta').thoughtHistory).toHaveLength(0);
+    });
+
+    it('should not create sessions when peeking', () => {
+      const store = new SessionStore();
+
+      expect(store.peek('missing')).toBeUndefined();
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('Eviction', () => {
+    it('should evict sessions idle longer than the TTL', () => {
+      let now = 0;
+      const store = new SessionStore({ ttlMs: 1000, now: () => now });
+
+      store.get('stale');
+      now = 500;
+      store.get('fresh');
+      now = 1200;
+
+      expect(store.evictExpired()).toEqual(['stale']);
+      expect(store.has('fresh')).toBe(true);
+    });
+
+    it('should refresh the idle timer on access', () => {
+      let now = 0;
+      const store = new SessionStore({ ttlMs: 1000, now: () => now });
+
+      store.get('alpha');
+      now = 900;
+      store.get('alpha');
+      now = 1500;
+
+      expect(store.list().map((session) => session.id)).toEqual(['alpha']);
+    });
+
+    it('should not evict when the TTL is zero', () => {
+      let now = 0;
+      const store = new SessionStore({ ttlMs: 0, now: () => now });
+
+      store.get('alpha');
+      now = Number.MAX_SAFE_INTEGER;
+
+      expect(store.evictExpired()).toEqual([]);
+    });
+
+    it('should evict the least recently used session at the cap', () => {
+      let now = 0;
+      const store = new SessionStore({ maxSessions: 2, now: () => now++ });
+
+      store.get('a');
+      store.get('b');
+      store.get('a');
+      store.get('c');
+
+      expect(store.has('a')).toBe(true);
+      expect(store.has('b')).toBe(false);
+      expect(store.has('c')).toBe(true);
+    });
+  });
+});
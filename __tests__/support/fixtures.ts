@@ -0,0 +1,40 @@
+import type { DeepmindInput, ToolResult } from '../../src/deepmind-server';
+
+/**
+ * Body of a refused tool call. The other fields depend on why the call was refused.
+ */
+export interface ErrorBody {
+  error: string;
+  status: 'failed';
+  [detail: string]: unknown;
+}
+
+/**
+ * Parses the JSON text of a tool result as the body the test expects
+ */
+export const parse = <T>(result: ToolResult): T => JSON.parse(result.content[0].text) as T;
+
+/**
+ * Builds a thought input. The text defaults to "Step n".
+ */
+export interface StepBuilder {
+  (thoughtNumber: number, extra?: Partial<DeepmindInput>): DeepmindInput;
+  (thoughtNumber: number, thought: string, extra?: Partial<DeepmindInput>): DeepmindInput;
+}
+
+/**
+ * Returns a builder for thoughts in a chain of `totalThoughts` that still needs more thoughts
+ */
+export function stepsOf(totalThoughts: number): StepBuilder {
+  return (
+    thoughtNumber: number,
+    thoughtOrExtra: string | Partial<DeepmindInput> = {},
+    extra: Partial<DeepmindInput> = {}
+  ): DeepmindInput => {
+    const [thought, rest] =
+      typeof thoughtOrExtra === 'string'
+        ? [thoughtOrExtra, extra]
+        : [`Step ${thoughtNumber}`, thoughtOrExtra];
+    return { thought, nextThoughtNeeded: true, thoughtNumber, totalThoughts, ...rest };
+  };
+}
@@ -4,6 +4,11 @@ export default {
   testEnvironment: 'node',
   roots: ['<rootDir>/src', '<rootDir>/__tests__'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/support/'],
+  // chalk is ESM-only; every suite that reaches the logger gets a colourless stand-in
+  moduleNameMapper: {
+    '^chalk$': '<rootDir>/__tests__/support/chalk.ts',
+  },
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
@@ -26,4 +31,4 @@ export default {
   setupFilesAfterEnv: [],
   testTimeout: 10000,
   verbose: true,
-};
\ No newline at end of file
+};
@@ -0,0 +1,89 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Named checks behind a probe; the probe passes when every check is true
+ */
+export type HealthChecks = Record<string, boolean>;
+
+/**
+ * What the admin listener reports
+ */
+export interface AdminProbes {
+  /** Whether the process is working at all; failing means it should be restarted */
+  liveness(): HealthChecks;
+  /** Whether the server can take MCP traffic right now */
+  readiness(): HealthChecks;
+  /** Metrics in the Prometheus text exposition format */
+  metrics(): string;
+}
+
+/**
+ * A running admin listener
+ */
+export interface AdminServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Writes a probe result: 200 when every check passes, 503 otherwise
+ */
+function sendProbe(res: http.ServerResponse, checks: HealthChecks): void {
+  const healthy = Object.values(checks).every(Boolean);
+  res.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ status: healthy ? 'ok' : 'unavailable', checks }));
+}
+
+/**
+ * Serves /healthz, /readyz and /metrics on a separate local port, so probes and scrapes
+ * work whichever MCP transport is in use
+ */
+export async function startAdminServer(
+  probes: AdminProbes,
+  options: { host: string; port: number }
+): Promise<AdminServerHandle> {
+  const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+      return;
+    }
+
+    try {
+      if (pathname === '/healthz') {
+        sendProbe(res, probes.liveness());
+      } else if (pathname === '/readyz') {
+        sendProbe(res, probes.readiness());
+      } else if (pathname === '/metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(probes.metrics());
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found\n');
+      }
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(`${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
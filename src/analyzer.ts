@@ -0,0 +1,272 @@
+import type { DeepmindInput } from './deepmind-server';
+
+/**
+ * Kinds of problem the analyzer reports
+ */
+export const ANALYZER_WARNING_KINDS = [
+  'loop',
+  'stagnation',
+  'revision-churn',
+  'contradiction',
+] as const;
+
+export type AnalyzerWarningKind = (typeof ANALYZER_WARNING_KINDS)[number];
+
+/**
+ * A problem spotted in an incoming thought
+ */
+export interface AnalyzerWarning {
+  kind: AnalyzerWarningKind;
+  message: string;
+  /** Earlier thought numbers involved */
+  thoughts: number[];
+}
+
+/**
+ * Tuning knobs for the analyzer
+ */
+export interface AnalyzerOptions {
+  /** Word-set similarity at or above which two thoughts count as repeats */
+  similarityThreshold: number;
+  /** Number of recent thoughts on the same lane checked for repeats */
+  loopWindow: number;
+  /** Revisions of one thought, including the incoming one, that count as churn */
+  maxRevisions: number;
+  /** Consecutive increases of totalThoughts that count as stagnation */
+  maxInflation: number;
+  /** Word-set similarity, ignoring negations, at or above which opposite statements clash */
+  contradictionThreshold: number;
+  /** Number of recent thoughts on the same lane checked for contradictions */
+  contradictionWindow: number;
+}
+
+export const DEFAULT_ANALYZER_OPTIONS: AnalyzerOptions = {
+  similarityThreshold: 0.85,
+  loopWindow: 5,
+  maxRevisions: 3,
+  maxInflation: 3,
+  contradictionThreshold: 0.7,
+  contradictionWindow: 50,
+};
+
+/**
+ * Error raised when a thought would extend a run of flagged thoughts past the configured limit
+ */
+export class LoopDetectedError extends Error {
+  constructor(
+    public readonly warnings: AnalyzerWarning[],
+    public readonly threshold: number
+  ) {
+    super(
+      `Thought refused: the last ${threshold} thoughts were already flagged as looping or stagnating. Roll back, branch or conclude instead of repeating.`
+    );
+    this.name = 'LoopDetectedError';
+  }
+}
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'neither', 'nor', 'cannot']);
+
+/**
+ * Splits text into a set of lower-case words, expanding "n't" to "not"
+ */
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/n't\b/g, ' not')
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 0)
+  );
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Drops negation words so statements and their denials compare as equal
+ */
+function withoutNegations(set: Set<string>): Set<string> {
+  return new Set([...set].filter((word) => !NEGATIONS.has(word)));
+}
+
+/**
+ * Whether a word set contains a negation
+ */
+function isNegated(set: Set<string>): boolean {
+  return [...set].some((word) => NEGATIONS.has(word));
+}
+
+/**
+ * Thought numbers of the original a thought descends from and every revision made of it so far
+ */
+function revisionLineage(history: DeepmindInput[], thoughtNumber: number): number[] {
+  let root = thoughtNumber;
+  const visited = new Set([root]);
+  for (;;) {
+    const parent = history.find(
+      (thought) => thought.isRevision && thought.thoughtNumber === root
+    )?.revisesThought;
+    if (parent === undefined || visited.has(parent)) {
+      break;
+    }
+    visited.add(parent);
+    root = parent;
+  }
+
+  const lineage = new Set([root]);
+  for (const thought of history) {
+    if (thought.isRevision && thought.revisesThought !== undefined) {
+      if (lineage.has(thought.revisesThought)) {
+        lineage.add(thought.thoughtNumber);
+      }
+    }
+  }
+  return [...lineage];
+}
+
+/**
+ * Checks an incoming thought against the recorded history for loops, stagnation, revision
+ * churn and contradictions. Purely lexical; nothing leaves the process.
+ */
+export function analyzeThought(
+  history: DeepmindInput[],
+  input: DeepmindInput,
+  options: AnalyzerOptions = DEFAULT_ANALYZER_OPTIONS
+): AnalyzerWarning[] {
+  const warnings: AnalyzerWarning[] = [];
+  const lane = history.filter((thought) => thought.branchId === input.branchId);
+  const inputWords = words(input.thought);
+  const inputNegated = isNegated(inputWords);
+
+  // Near-identical thoughts
+  const repeats = lane
+    .slice(-options.loopWindow)
+    .filter((thought) => {
+      const thoughtWords = words(thought.thought);
+      return (
+        isNegated(thoughtWords) === inputNegated &&
+        similarity(inputWords, thoughtWords) >= options.similarityThreshold
+      );
+    })
+    .map((thought) => thought.thoughtNumber);
+  if (repeats.length > 0) {
+    warnings.push({
+      kind: 'loop',
+      message: `Thought ${input.thoughtNumber} repeats thought ${repeats.join(', ')} almost word for word.`,
+      thoughts: repeats,
+    });
+  }
+
+  // Revising the same thought over and over
+  if (input.isRevision && input.revisesThought !== undefined) {
+    const lineage = revisionLineage(history, input.revisesThought);
+    if (lineage.length >= options.maxRevisions) {
+      warnings.push({
+        kind: 'revision-churn',
+        message: `Thought ${lineage[0]} has now been revised ${lineage.length} times; settle it or branch instead.`,
+        thoughts: lineage,
+      });
+    }
+  }
+
+  // totalThoughts raised on every recent thought
+  let raises = 0;
+  let previous = input;
+  for (let i = lane.length - 1; i >= 0 && previous.totalThoughts > lane[i].totalThoughts; i--) {
+    raises++;
+    previous = lane[i];
+  }
+  if (raises >= options.maxInflation) {
+    warnings.push({
+      kind: 'stagnation',
+      message: `totalThoughts has gone up on ${raises} thoughts in a row (now ${input.totalThoughts}) without converging.`,
+      thoughts: lane.slice(-raises).map((thought) => thought.thoughtNumber),
+    });
+  }
+
+  // Statements that say the opposite of an earlier one
+  const inputCore = withoutNegations(inputWords);
+  const clashes = lane
+    .slice(-options.contradictionWindow)
+    .filter((thought) => thought.thoughtNumber !== input.revisesThought)
+    .filter((thought) => {
+      const thoughtWords = words(thought.thought);
+      return (
+        isNegated(thoughtWords) !== inputNegated &&
+        similarity(inputCore, withoutNegations(thoughtWords)) >= options.contradictionThreshold
+      );
+    })
+    .map((thought) => thought.thoughtNumber);
+
+  // Opposite verdicts on the same hypothesis
+  if (input.verifiesThought !== undefined && input.verdict && input.verdict !== 'inconclusive') {
+    let hypothesisIndex = -1;
+    history.forEach((thought, index) => {
+      if (thought.stage === 'hypothesis' && thought.thoughtNumber === input.verifiesThought) {
+        hypothesisIndex = index;
+      }
+    });
+    for (const thought of history.slice(hypothesisIndex + 1)) {
+      if (
+        thought.verifiesThought === input.verifiesThought &&
+        thought.verdict !== undefined &&
+        thought.verdict !== 'inconclusive' &&
+        thought.verdict !== input.verdict &&
+        !clashes.includes(thought.thoughtNumber)
+      ) {
+        clashes.push(thought.thoughtNumber);
+      }
+    }
+  }
+
+  if (clashes.length > 0) {
+    warnings.push({
+      kind: 'contradiction',
+      message: `Thought ${input.thoughtNumber} contradicts thought ${clashes.join(', ')}; revise the earlier thought if it was wrong.`,
+      thoughts: clashes,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Whether a warning counts toward refusing further thoughts. Contradictions are reported
+ * but never block.
+ */
+export function isBlocking(warning: AnalyzerWarning): boolean {
+  return warning.kind !== 'contradiction';
+}
+
+/**
+ * Counts how many of the most recent thoughts were flagged with blocking warnings in a row,
+ * stopping once the count reaches the limit
+ */
+export function countFlaggedStreak(
+  history: DeepmindInput[],
+  limit: number,
+  options: AnalyzerOptions = DEFAULT_ANALYZER_OPTIONS
+): number {
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0 && streak < limit; i--) {
+    const flagged = analyzeThought(history.slice(0, i), history[i], options).some(isBlocking);
+    if (!flagged) {
+      break;
+    }
+    streak++;
+  }
+  return streak;
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for validating darbot_deepmind_batch tool inputs. Each thought is validated
+ * against DeepmindSchema separately so failures can be reported per item.
+ */
+export const DeepmindBatchSchema = z.object({
+  thoughts: z.array(z.unknown()).min(1).describe('Thoughts to record, in order'),
+});
+
+export type DeepmindBatchInput = z.infer<typeof DeepmindBatchSchema>;
+
+/**
+ * Error raised when one thought of a batch fails validation, rejecting the whole batch
+ */
+export class BatchItemError extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly reason: unknown
+  ) {
+    super(
+      `Batch item ${index} failed: ${reason instanceof Error ? reason.message : String(reason)}`
+    );
+    this.name = 'BatchItemError';
+  }
+}
@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import { ReasoningSession, SessionIdSchema } from './session-store';
+import type { ConfidenceAggregate } from './confidence';
+
+/**
+ * Lifecycle states of a branch
+ */
+export const BRANCH_STATUSES = ['open', 'abandoned', 'merged', 'selected'] as const;
+
+export type BranchStatus = (typeof BRANCH_STATUSES)[number];
+
+/**
+ * Branch states hidden from responses when a session prunes dead branches
+ */
+const DEAD_STATUSES: BranchStatus[] = ['abandoned', 'merged'];
+
+/**
+ * First-class branch metadata kept alongside a branch's thoughts
+ */
+export interface BranchRecord {
+  branchId: string;
+  /** Branch the fork point belongs to; undefined for branches off the mainline */
+  parentBranchId?: string;
+  branchFromThought: number;
+  status: BranchStatus;
+  rationale?: string;
+  /** Set once merged: the branch the conclusion was adopted into, or null for the mainline */
+  mergedInto?: string | null;
+  /** Thought number whose conclusion was adopted by the merge */
+  conclusionThought?: number;
+  /** Aggregate of the confidence scores given on the branch's thoughts */
+  confidence?: ConfidenceAggregate;
+  /** Total evidence items cited by the branch's thoughts */
+  evidenceCount?: number;
+}
+
+/**
+ * Branch as reported in tool responses
+ */
+export interface BranchSummary extends BranchRecord {
+  thoughtCount: number;
+}
+
+/**
+ * A status change or merge, journaled so it survives restarts
+ */
+export const BranchEventSchema = z.object({
+  branchId: z.string().min(1),
+  status: z.enum(BRANCH_STATUSES),
+  rationale: z.string().optional(),
+  conclusionThought: z.number().int().positive().optional(),
+});
+
+export type BranchEvent = z.infer<typeof BranchEventSchema>;
+
+/**
+ * Zod schema for validating darbot_deepmind_branch tool inputs
+ */
+export const BranchToolSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('list'),
+    sessionId: SessionIdSchema.optional(),
+  }),
+  z.object({
+    action: z.literal('rank'),
+    sessionId: SessionIdSchema.optional(),
+  }),
+  z.object({
+    action: z.literal('update'),
+    sessionId: SessionIdSchema.optional(),
+    branchId: z.string().min(1).describe('Branch to update'),
+    status: z.enum(['open', 'abandoned', 'selected']).describe('New branch status'),
+    rationale: z.string().min(1).optional().describe('Why the status changed'),
+  }),
+  z.object({
+    action: z.literal('merge'),
+    sessionId: SessionIdSchema.optional(),
+    branchId: z.string().min(1).describe('Branch to merge into its parent'),
+    conclusionThought: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Branch thought whose conclusion is adopted (defaults to the last one)'),
+    rationale: z.string().min(1).optional().describe('Why this conclusion was adopted'),
+  }),
+]);
+
+export type BranchToolInput = z.infer<typeof BranchToolSchema>;
+
+/**
+ * Checks that a thought may be added to its branch and that nesting references are sound
+ */
+export function validateBranchThought(
+  session: ReasoningSession | undefined,
+  input: DeepmindInput
+): void {
+  if (input.parentBranchId !== undefined) {
+    if (input.branchFromThought === undefined) {
+      throw new Error('parentBranchId requires branchFromThought to name the fork point.');
+    }
+    if (input.parentBranchId === input.branchId) {
+      throw new Error('A branch cannot be its own parent.');
+    }
+    if (!session?.branchRecords[input.parentBranchId]) {
+      throw new Error(
+        `Unknown parent branch "${input.parentBranchId}". Record a thought on it before nesting another branch under it.`
+      );
+    }
+  }
+
+  const record = input.branchId !== undefined ? session?.branchRecords[input.branchId] : undefined;
+  if (!record) {
+    return;
+  }
+  if (record.status === 'abandoned' || record.status === 'merged') {
+    throw new Error(
+      `Branch "${record.branchId}" is ${record.status}. Reopen it with darbot_deepmind_branch (status "open") or start a new branch.`
+    );
+  }
+  if (input.parentBranchId !== undefined && input.parentBranchId !== record.parentBranchId) {
+    throw new Error(
+      `Branch "${record.branchId}" was forked from ${record.parentBranchId ? `branch "${record.parentBranchId}"` : 'the mainline'}; parentBranchId cannot change.`
+    );
+  }
+}
+
+/**
+ * Creates the branch record for the first thought of a branch
+ */
+export function registerBranchThought(session: ReasoningSession, input: DeepmindInput): void {
+  if (input.branchId === undefined || input.branchFromThought === undefined) {
+    return;
+  }
+  if (!session.branchRecords[input.branchId]) {
+    session.branchRecords[input.branchId] = {
+      branchId: input.branchId,
+      parentBranchId: input.parentBranchId,
+      branchFromThought: input.branchFromThought,
+      status: 'open',
+    };
+  }
+}
+
+/**
+ * Validates a status change or merge against the branch's current state and returns the
+ * event to apply
+ */
+export function planBranchEvent(
+  session: ReasoningSession,
+  input: Extract<BranchToolInput, { action: 'update' | 'merge' }>
+): BranchEvent {
+  const record = session.branchRecords[input.branchId];
+  if (!record) {
+    const known = Object.keys(session.branchRecords);
+    throw new Error(
+      `Unknown branch "${input.branchId}". ${known.length > 0 ? `Known branches: ${known.join(', ')}.` : 'The session has no branches.'}`
+    );
+  }
+  if (record.status === 'merged') {
+    throw new Error(`Branch "${record.branchId}" is already merged and cannot change.`);
+  }
+
+  if (input.action === 'update') {
+    return { branchId: record.branchId, status: input.status, rationale: input.rationale };
+  }
+
+  const thoughts = session.branches[record.branchId] ?? [];
+  const conclusionThought = input.conclusionThought ?? thoughts[thoughts.length - 1]?.thoughtNumber;
+  if (
+    conclusionThought === undefined ||
+    !thoughts.some((thought) => thought.thoughtNumber === conclusionThought)
+  ) {
+    throw new Error(
+      `Thought ${conclusionThought} is not part of branch "${record.branchId}". Branch thoughts: ${thoughts.map((thought) => thought.thoughtNumber).join(', ')}.`
+    );
+  }
+
+  return {
+    branchId: record.branchId,
+    status: 'merged',
+    rationale: input.rationale,
+    conclusionThought,
+  };
+}
+
+/**
+ * Applies a status change or merge to a session's branch record
+ */
+export function applyBranchEvent(session: ReasoningSession, event: BranchEvent): void {
+  const record = session.branchRecords[event.branchId];
+  if (!record) {
+    return;
+  }
+  record.status = event.status;
+  if (event.rationale !== undefined) {
+    record.rationale = event.rationale;
+  }
+  if (event.status === 'merged') {
+    record.mergedInto = record.parentBranchId ?? null;
+    record.conclusionThought = event.conclusionThought;
+  }
+}
+
+/**
+ * Summarizes a session's branches, hiding abandoned and merged ones when pruning
+ */
+export function summarizeBranches(session: ReasoningSession, prune = false): BranchSummary[] {
+  return Object.values(session.branchRecords)
+    .filter((record) => !prune || !DEAD_STATUSES.includes(record.status))
+    .map((record) => ({
+      ...record,
+      thoughtCount: session.branches[record.branchId]?.length ?? 0,
+    }));
+}
@@ -0,0 +1,178 @@
+import type { DeepmindInput } from './deepmind-server';
+import type { ReasoningSession } from './session-store';
+
+/**
+ * Resources a budget can cap
+ */
+export const BUDGET_RESOURCES = ['thoughts', 'branches', 'bytes'] as const;
+
+export type BudgetResource = (typeof BUDGET_RESOURCES)[number];
+
+/**
+ * Caps on thoughts, branches and serialized bytes. Unset means unlimited.
+ */
+export type BudgetLimits = Partial<Record<BudgetResource, number>>;
+
+/**
+ * Per-session and process-wide budgets, plus the per-thought length cap
+ */
+export interface BudgetConfig {
+  session: BudgetLimits;
+  global: BudgetLimits;
+  /** Maximum characters in a single thought */
+  thoughtChars?: number;
+}
+
+export type BudgetUsage = Record<BudgetResource, number>;
+
+/**
+ * What is left of each configured budget, reported in thought responses
+ */
+export interface BudgetRemaining {
+  session: BudgetLimits;
+  global: BudgetLimits;
+  thoughtChars?: number;
+}
+
+/**
+ * Error raised when a thought would go over a budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly resource: BudgetResource | 'thoughtChars',
+    public readonly scope: 'thought' | 'session' | 'global',
+    public readonly limit: number,
+    public readonly requested: number
+  ) {
+    super(
+      scope === 'thought'
+        ? `Thought is ${requested} characters long; the limit is ${limit}.`
+        : `${scope === 'session' ? 'Session' : 'Server'} ${resource} budget exhausted: ${requested} requested, limit is ${limit}.`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Serialized size of a thought, the unit of the bytes budget
+ */
+export function thoughtBytes(input: DeepmindInput): number {
+  return Buffer.byteLength(JSON.stringify(input), 'utf8');
+}
+
+/**
+ * Whether any budget is configured
+ */
+export function hasBudgets(config: BudgetConfig): boolean {
+  return [
+    config.thoughtChars,
+    ...Object.values(config.session),
+    ...Object.values(config.global),
+  ].some((limit) => limit !== undefined);
+}
+
+/**
+ * Resources used by one session. Thoughts and snapshots kept in rollback archives count too,
+ * so rolling back cannot be used to get around a budget.
+ */
+export function sessionUsage(session: ReasoningSession | undefined): BudgetUsage {
+  const usage: BudgetUsage = {
+    thoughts: session?.thoughtHistory.length ?? 0,
+    branches: session ? Object.keys(session.branchRecords).length : 0,
+    bytes: session?.bytes ?? 0,
+  };
+  for (const archive of session?.archives ?? []) {
+    usage.thoughts += archive.thoughts.length;
+    usage.bytes += archive.bytes;
+  }
+  return usage;
+}
+
+/**
+ * Resources used by every live session together
+ */
+export function globalUsage(sessions: ReasoningSession[]): BudgetUsage {
+  const total: BudgetUsage = { thoughts: 0, branches: 0, bytes: 0 };
+  for (const session of sessions) {
+    const usage = sessionUsage(session);
+    for (const resource of BUDGET_RESOURCES) {
+      total[resource] += usage[resource];
+    }
+  }
+  return total;
+}
+
+/**
+ * What recording a thought would add to the usage of its session
+ */
+function thoughtCost(input: DeepmindInput, session: ReasoningSession | undefined): BudgetUsage {
+  const opensBranch =
+    input.branchId !== undefined &&
+    input.branchFromThought !== undefined &&
+    !session?.branchRecords[input.branchId];
+  return { thoughts: 1, branches: opensBranch ? 1 : 0, bytes: thoughtBytes(input) };
+}
+
+/**
+ * Throws a BudgetExceededError if recording the thought would go over any budget
+ */
+export function assertWithinBudget(
+  config: BudgetConfig,
+  input: DeepmindInput,
+  session: ReasoningSession | undefined,
+  sessions: ReasoningSession[]
+): void {
+  // Count code points so an emoji or other astral character counts once, not twice
+  const thoughtChars = [...input.thought].length;
+  if (config.thoughtChars !== undefined && thoughtChars > config.thoughtChars) {
+    throw new BudgetExceededError('thoughtChars', 'thought', config.thoughtChars, thoughtChars);
+  }
+  if (config.session.thoughts !== undefined && input.thoughtNumber > config.session.thoughts) {
+    throw new BudgetExceededError(
+      'thoughts',
+      'session',
+      config.session.thoughts,
+      input.thoughtNumber
+    );
+  }
+
+  const cost = thoughtCost(input, session);
+  const scopes: Array<['session' | 'global', BudgetLimits, BudgetUsage]> = [
+    ['session', config.session, sessionUsage(session)],
+    ['global', config.global, globalUsage(sessions)],
+  ];
+  for (const [scope, limits, usage] of scopes) {
+    for (const resource of BUDGET_RESOURCES) {
+      const limit = limits[resource];
+      if (limit !== undefined && cost[resource] > 0 && usage[resource] + cost[resource] > limit) {
+        throw new BudgetExceededError(resource, scope, limit, usage[resource] + cost[resource]);
+      }
+    }
+  }
+}
+
+/**
+ * Reports what is left of each configured budget
+ */
+export function remainingBudget(
+  config: BudgetConfig,
+  session: ReasoningSession,
+  sessions: ReasoningSession[]
+): BudgetRemaining {
+  const remaining = (limits: BudgetLimits, usage: BudgetUsage): BudgetLimits => {
+    const left: BudgetLimits = {};
+    for (const resource of BUDGET_RESOURCES) {
+      const limit = limits[resource];
+      if (limit !== undefined) {
+        left[resource] = Math.max(0, limit - usage[resource]);
+      }
+    }
+    return left;
+  };
+
+  return {
+    session: remaining(config.session, sessionUsage(session)),
+    global: remaining(config.global, globalUsage(sessions)),
+    thoughtChars: config.thoughtChars,
+  };
+}
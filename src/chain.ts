@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import type { ThoughtStage } from './stages';
+import { SessionIdSchema } from './session-store';
+
+/**
+ * Zod schema for validating darbot_deepmind_chain tool inputs
+ */
+export const ChainSchema = z.object({
+  sessionId: SessionIdSchema.optional().describe('Reasoning session to resolve'),
+  branchId: z.string().min(1).optional().describe('Branch to resolve (defaults to the mainline)'),
+});
+
+/**
+ * One position in the effective chain, showing the latest version of a thought
+ */
+export interface EffectiveThought {
+  /** Thought number of the latest version */
+  thoughtNumber: number;
+  /** Thought number this position was first recorded as */
+  originalThoughtNumber: number;
+  thought: string;
+  /** Thought numbers from the original through every revision, oldest first */
+  lineage: number[];
+  stage?: ThoughtStage;
+  branchId?: string;
+}
+
+/**
+ * The currently believed chain of reasoning for the mainline or a branch
+ */
+export interface EffectiveChain {
+  branchId?: string;
+  thoughts: EffectiveThought[];
+  /** Thought numbers replaced by a later revision */
+  superseded: number[];
+}
+
+/**
+ * Applies thoughts in submission order, folding each revision into the position it revises
+ */
+function applyThoughts(
+  thoughts: DeepmindInput[],
+  entries: EffectiveThought[] = [],
+  positionOf: Map<number, EffectiveThought> = new Map()
+): EffectiveThought[] {
+  for (const thought of thoughts) {
+    const target =
+      thought.isRevision && thought.revisesThought !== undefined
+        ? positionOf.get(thought.revisesThought)
+        : undefined;
+
+    if (target) {
+      target.thoughtNumber = thought.thoughtNumber;
+      target.thought = thought.thought;
+      target.stage = thought.stage;
+      target.branchId = thought.branchId;
+      target.lineage.push(thought.thoughtNumber);
+      positionOf.set(thought.thoughtNumber, target);
+      continue;
+    }
+
+    const entry: EffectiveThought = {
+      thoughtNumber: thought.thoughtNumber,
+      originalThoughtNumber: thought.thoughtNumber,
+      thought: thought.thought,
+      lineage: [thought.thoughtNumber],
+      stage: thought.stage,
+      branchId: thought.branchId,
+    };
+    entries.push(entry);
+    if (!positionOf.has(thought.thoughtNumber)) {
+      positionOf.set(thought.thoughtNumber, entry);
+    }
+  }
+  return entries;
+}
+
+const isMainline = (thought: DeepmindInput): boolean => thought.branchId === undefined;
+
+/**
+ * Resolves the positions of one lane. A branch inherits its parent lane, as it stood when
+ * the branch forked, up to the fork point.
+ */
+function resolveLane(history: DeepmindInput[], branchId?: string): EffectiveThought[] {
+  if (branchId === undefined) {
+    return applyThoughts(history.filter(isMainline));
+  }
+
+  const firstIndex = history.findIndex((thought) => thought.branchId === branchId);
+  if (firstIndex === -1) {
+    throw new Error(`Unknown branch: ${branchId}`);
+  }
+  const { branchFromThought: forkPoint = 0, parentBranchId } = history[firstIndex];
+
+  const prefix = resolveLane(history.slice(0, firstIndex), parentBranchId).filter(
+    (entry) => entry.originalThoughtNumber <= forkPoint
+  );
+  const positionOf = new Map<number, EffectiveThought>();
+  for (const entry of prefix) {
+    for (const thoughtNumber of entry.lineage) {
+      positionOf.set(thoughtNumber, entry);
+    }
+  }
+  return applyThoughts(
+    history.filter((thought) => thought.branchId === branchId),
+    prefix,
+    positionOf
+  );
+}
+
+/**
+ * Resolves the effective chain of a session. The mainline view applies mainline revisions
+ * only; a branch view inherits its parent lane (the mainline, or the parent branch of a
+ * nested branch) as it stood when the branch forked, up to the fork point, and then applies
+ * the branch's own thoughts and revisions.
+ */
+export function resolveEffectiveChain(history: DeepmindInput[], branchId?: string): EffectiveChain {
+  const entries = resolveLane(history, branchId);
+  const superseded = entries.flatMap((entry) => entry.lineage.slice(0, -1)).sort((a, b) => a - b);
+
+  return { branchId, thoughts: entries, superseded };
+}
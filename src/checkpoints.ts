@@ -0,0 +1,345 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import type { BranchRecord } from './branches';
+import { recordBranchConfidence } from './confidence';
+import { thoughtBytes } from './budgets';
+import { ReasoningSession, SessionIdSchema } from './session-store';
+import type { ConclusionRecord } from './conclusion';
+
+/**
+ * A named position in a session's thought history
+ */
+export interface Checkpoint {
+  name: string;
+  /** Number of thoughts recorded when the checkpoint was taken */
+  historyLength: number;
+  /** Thought number of the last thought at the checkpoint */
+  thoughtNumber?: number;
+  createdAt: string;
+}
+
+/**
+ * Thoughts discarded by a rollback, kept so the rollback can be undone
+ */
+export interface ArchivedSuffix {
+  archiveId: string;
+  /** What the session was rolled back to */
+  target: string;
+  /** History length the suffix was cut at */
+  fromLength: number;
+  thoughts: DeepmindInput[];
+  /** Branch records as they stood before the rollback */
+  branchRecords: Record<string, BranchRecord>;
+  /** Checkpoints taken inside the discarded suffix */
+  checkpoints: Checkpoint[];
+  /** Conclusion drawn inside the discarded suffix */
+  conclusion?: ConclusionRecord;
+  /** Serialized size of the thoughts and snapshots held, for the bytes budget */
+  bytes: number;
+  createdAt: string;
+}
+
+/**
+ * Rollbacks kept per session for restore; older archives are dropped
+ */
+export const MAX_ARCHIVES = 10;
+
+const CHECKPOINT_NAME = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(
+    /^[A-Za-z0-9._-]+$/,
+    'checkpoint names may only contain letters, digits, ".", "_" and "-"'
+  );
+
+/**
+ * A checkpoint, rollback or restore, journaled so it survives restarts
+ */
+export const CheckpointEventSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    name: CHECKPOINT_NAME,
+    createdAt: z.string(),
+  }),
+  z.object({
+    action: z.literal('rollback'),
+    archiveId: z.string().min(1),
+    target: z.string(),
+    length: z.number().int().nonnegative(),
+    createdAt: z.string(),
+  }),
+  z.object({
+    action: z.literal('restore'),
+    archiveId: z.string().min(1),
+  }),
+]);
+
+export type CheckpointEvent = z.infer<typeof CheckpointEventSchema>;
+
+/**
+ * Zod schema for validating darbot_deepmind_checkpoint tool inputs
+ */
+export const CheckpointToolSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('list'),
+    sessionId: SessionIdSchema.optional(),
+  }),
+  z.object({
+    action: z.literal('create'),
+    sessionId: SessionIdSchema.optional(),
+    name: CHECKPOINT_NAME.describe('Checkpoint name'),
+  }),
+  z
+    .object({
+      action: z.literal('rollback'),
+      sessionId: SessionIdSchema.optional(),
+      checkpoint: CHECKPOINT_NAME.optional().describe('Checkpoint to roll back to'),
+      toThought: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Thought number to roll back to, keeping that thought'),
+      branchId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Branch toThought belongs to (defaults to the mainline)'),
+    })
+    .refine((input) => (input.checkpoint === undefined) !== (input.toThought === undefined), {
+      message: 'rollback needs exactly one of checkpoint or toThought',
+    }),
+  z.object({
+    action: z.literal('restore'),
+    sessionId: SessionIdSchema.optional(),
+    archiveId: z.string().min(1).describe('Archive returned by the rollback'),
+  }),
+]);
+
+export type CheckpointToolInput = z.infer<typeof CheckpointToolSchema>;
+
+/**
+ * Validates a new checkpoint name and returns the event that creates it
+ */
+export function planCheckpoint(session: ReasoningSession, name: string): CheckpointEvent {
+  if (session.checkpoints[name]) {
+    throw new Error(`Checkpoint "${name}" already exists.`);
+  }
+  return { action: 'create', name, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Works out where a rollback cuts the history and returns the event that performs it
+ */
+export function planRollback(
+  session: ReasoningSession,
+  input: Extract<CheckpointToolInput, { action: 'rollback' }>
+): CheckpointEvent {
+  let length: number;
+  let target: string;
+
+  if (input.checkpoint !== undefined) {
+    const checkpoint = session.checkpoints[input.checkpoint];
+    if (!checkpoint) {
+      const known = Object.keys(session.checkpoints);
+      throw new Error(
+        `Unknown checkpoint "${input.checkpoint}". ${known.length > 0 ? `Checkpoints: ${known.join(', ')}.` : 'The session has no checkpoints.'}`
+      );
+    }
+    length = checkpoint.historyLength;
+    target = `checkpoint "${checkpoint.name}"`;
+  } else {
+    const lane = input.branchId;
+    let index = -1;
+    for (let i = session.thoughtHistory.length - 1; i >= 0; i--) {
+      const thought = session.thoughtHistory[i];
+      if (thought.branchId === lane && thought.thoughtNumber === input.toThought) {
+        index = i;
+        break;
+      }
+    }
+    const laneName = lane === undefined ? 'the mainline' : `branch "${lane}"`;
+    if (index === -1) {
+      throw new Error(`Thought ${input.toThought} is not recorded on ${laneName}.`);
+    }
+    length = index + 1;
+    target = `thought ${input.toThought} on ${laneName}`;
+  }
+
+  if (length >= session.thoughtHistory.length) {
+    throw new Error(`Nothing to roll back: no thoughts were recorded after ${target}.`);
+  }
+
+  return {
+    action: 'rollback',
+    archiveId: randomUUID().slice(0, 8),
+    target,
+    length,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Checks that an archive can be restored onto the current history
+ */
+export function planRestore(session: ReasoningSession, archiveId: string): CheckpointEvent {
+  const archive = session.archives.find((entry) => entry.archiveId === archiveId);
+  if (!archive) {
+    const known = session.archives.map((entry) => entry.archiveId);
+    throw new Error(
+      `Unknown archive "${archiveId}". ${known.length > 0 ? `Archives: ${known.join(', ')}.` : 'The session has no archives.'}`
+    );
+  }
+  if (session.thoughtHistory.length !== archive.fromLength) {
+    throw new Error(
+      `Archive "${archiveId}" was cut at ${archive.fromLength} thoughts but the session now has ${session.thoughtHistory.length}; roll back to the same point before restoring it.`
+    );
+  }
+  return { action: 'restore', archiveId };
+}
+
+/**
+ * Cuts the history at the given length, archiving the discarded thoughts and unwinding
+ * their effect on branches, counters and any conclusion drawn after the cut
+ */
+function rollback(
+  session: ReasoningSession,
+  event: Extract<CheckpointEvent, { action: 'rollback' }>
+): void {
+  const discarded = session.thoughtHistory.splice(event.length);
+  const archivedCheckpoints = Object.values(session.checkpoints).filter(
+    (checkpoint) => checkpoint.historyLength > event.length
+  );
+  const archivedConclusion =
+    session.conclusion && session.conclusion.historyLength > event.length
+      ? session.conclusion
+      : undefined;
+
+  const snapshot = {
+    branchRecords: structuredClone(session.branchRecords),
+    checkpoints: archivedCheckpoints,
+    conclusion: archivedConclusion,
+  };
+  session.archives.push({
+    archiveId: event.archiveId,
+    target: event.target,
+    fromLength: event.length,
+    thoughts: discarded,
+    ...snapshot,
+    bytes:
+      discarded.reduce((total, thought) => total + thoughtBytes(thought), 0) +
+      Buffer.byteLength(JSON.stringify(snapshot), 'utf8'),
+    createdAt: event.createdAt,
+  });
+  if (session.archives.length > MAX_ARCHIVES) {
+    session.archives.splice(0, session.archives.length - MAX_ARCHIVES);
+  }
+  if (archivedConclusion) {
+    delete session.conclusion;
+  }
+
+  for (const checkpoint of archivedCheckpoints) {
+    delete session.checkpoints[checkpoint.name];
+  }
+
+  for (const thought of discarded) {
+    session.counters.thoughts--;
+    session.bytes -= thoughtBytes(thought);
+    if (thought.isRevision) {
+      session.counters.revisions--;
+    }
+    if (thought.branchFromThought && thought.branchId) {
+      session.branches[thought.branchId]?.pop();
+      session.counters.branchThoughts--;
+    }
+  }
+
+  const touched = new Set(discarded.map((thought) => thought.branchId));
+  for (const branchId of touched) {
+    if (branchId === undefined || !session.branchRecords[branchId]) {
+      continue;
+    }
+    const remaining = session.branches[branchId] ?? [];
+    if (remaining.length === 0) {
+      delete session.branches[branchId];
+      delete session.branchRecords[branchId];
+      continue;
+    }
+
+    const record = session.branchRecords[branchId];
+    delete record.confidence;
+    delete record.evidenceCount;
+    for (const thought of remaining) {
+      recordBranchConfidence(record, thought);
+    }
+    if (
+      record.conclusionThought !== undefined &&
+      !remaining.some((thought) => thought.thoughtNumber === record.conclusionThought)
+    ) {
+      record.status = 'open';
+      delete record.mergedInto;
+      delete record.conclusionThought;
+    }
+  }
+}
+
+/**
+ * Re-records an archived suffix and brings back the checkpoints and conclusion it held,
+ * along with the records of branches the rollback removed. Branches that survived the
+ * rollback keep their current records, so status changes and merges made since stand.
+ */
+function restore(
+  session: ReasoningSession,
+  archiveId: string,
+  recordThought: (input: DeepmindInput) => void
+): void {
+  const index = session.archives.findIndex((entry) => entry.archiveId === archiveId);
+  if (index === -1) {
+    return;
+  }
+  const [archive] = session.archives.splice(index, 1);
+  const removed = Object.keys(archive.branchRecords).filter(
+    (branchId) => !session.branchRecords[branchId]
+  );
+
+  for (const thought of archive.thoughts) {
+    recordThought(thought);
+  }
+  for (const branchId of removed) {
+    session.branchRecords[branchId] = archive.branchRecords[branchId];
+  }
+  for (const checkpoint of archive.checkpoints) {
+    session.checkpoints[checkpoint.name] = checkpoint;
+  }
+  if (archive.conclusion) {
+    session.conclusion = archive.conclusion;
+  }
+}
+
+/**
+ * Applies a checkpoint, rollback or restore event to a session
+ */
+export function applyCheckpointEvent(
+  session: ReasoningSession,
+  event: CheckpointEvent,
+  recordThought: (input: DeepmindInput) => void
+): void {
+  switch (event.action) {
+    case 'create':
+      session.checkpoints[event.name] = {
+        name: event.name,
+        historyLength: session.thoughtHistory.length,
+        thoughtNumber: session.thoughtHistory[session.thoughtHistory.length - 1]?.thoughtNumber,
+        createdAt: event.createdAt,
+      };
+      break;
+    case 'rollback':
+      rollback(session, event);
+      break;
+    case 'restore':
+      restore(session, event.archiveId, recordThought);
+      break;
+  }
+}
@@ -0,0 +1,178 @@
+import type { DeepmindInput } from './deepmind-server';
+import type { BranchRecord } from './branches';
+import { analyzeThought } from './analyzer';
+import { findStaleThoughts } from './dependencies';
+import { summarizeHypotheses } from './stages';
+
+/**
+ * Rules checked when a thought sets nextThoughtNeeded to false
+ */
+export const COMPLETION_GATES = [
+  'branches-resolved',
+  'hypotheses-verified',
+  'last-is-conclusion',
+  'no-more-thoughts-requested',
+  'no-pending-revisions',
+] as const;
+
+export type CompletionGate = (typeof COMPLETION_GATES)[number];
+
+/**
+ * What happens when a finishing thought fails a gate: refuse it, or record it and list
+ * what is outstanding
+ */
+export const COMPLETION_MODES = ['report', 'reject'] as const;
+
+export type CompletionMode = (typeof COMPLETION_MODES)[number];
+
+/**
+ * Something that has to be dealt with before the reasoning is done
+ */
+export interface OutstandingItem {
+  gate: CompletionGate;
+  message: string;
+  thoughts?: number[];
+  branches?: string[];
+}
+
+/**
+ * Error raised when a finishing thought fails a completion gate in reject mode
+ */
+export class CompletionBlockedError extends Error {
+  constructor(public readonly outstanding: OutstandingItem[]) {
+    super(
+      `Cannot finish yet: ${outstanding.map((item) => item.message).join(' ')} Set nextThoughtNeeded to true and deal with these first.`
+    );
+    this.name = 'CompletionBlockedError';
+  }
+}
+
+/**
+ * Parses a comma-separated gate list; "all" enables every gate and unknown names are skipped
+ */
+export function parseCompletionGates(value: string | undefined): CompletionGate[] {
+  const names = (value ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+  if (names.includes('all')) {
+    return [...COMPLETION_GATES];
+  }
+  return COMPLETION_GATES.filter((gate) => names.includes(gate));
+}
+
+/**
+ * Finds thoughts that contradict earlier ones where neither side has been revised since
+ */
+function unresolvedContradictions(history: DeepmindInput[]): number[] {
+  const pending = new Set<number>();
+  history.forEach((thought, index) => {
+    const clashes = analyzeThought(history.slice(0, index), thought)
+      .filter((warning) => warning.kind === 'contradiction')
+      .flatMap((warning) => warning.thoughts);
+    if (clashes.length === 0) {
+      return;
+    }
+    const revisedLater = new Set(
+      history
+        .slice(index + 1)
+        .filter((later) => later.isRevision && later.revisesThought !== undefined)
+        .map((later) => later.revisesThought)
+    );
+    if (!revisedLater.has(thought.thoughtNumber) && !clashes.some((n) => revisedLater.has(n))) {
+      pending.add(thought.thoughtNumber);
+    }
+  });
+  return [...pending];
+}
+
+/**
+ * Checks the enabled gates against the history as it would stand with the finishing
+ * thought recorded. Returns the outstanding items; an empty list means the finish is allowed.
+ */
+export function evaluateCompletion(
+  gates: CompletionGate[],
+  history: DeepmindInput[],
+  branchRecords: Record<string, BranchRecord>,
+  input: DeepmindInput
+): OutstandingItem[] {
+  const outstanding: OutstandingItem[] = [];
+  const candidate = [...history, input];
+
+  for (const gate of gates) {
+    switch (gate) {
+      case 'branches-resolved': {
+        const open = Object.values(branchRecords)
+          .filter((record) => record.status === 'open')
+          .map((record) => record.branchId);
+        if (input.branchId !== undefined && !branchRecords[input.branchId]) {
+          open.push(input.branchId);
+        }
+        if (open.length > 0) {
+          outstanding.push({
+            gate,
+            message: `Branches still open: ${open.join(', ')}; select, merge or abandon them.`,
+            branches: open,
+          });
+        }
+        break;
+      }
+      case 'hypotheses-verified': {
+        const { unverified } = summarizeHypotheses(candidate);
+        if (unverified.length > 0) {
+          outstanding.push({
+            gate,
+            message: `Hypotheses not yet confirmed or refuted: ${unverified.join(', ')}.`,
+            thoughts: unverified,
+          });
+        }
+        break;
+      }
+      case 'last-is-conclusion':
+        if (input.stage !== 'conclusion') {
+          outstanding.push({
+            gate,
+            message: 'The final thought must have stage "conclusion".',
+            thoughts: [input.thoughtNumber],
+          });
+        }
+        break;
+      case 'no-more-thoughts-requested': {
+        const previous = history
+          .filter((thought) => thought.branchId === input.branchId)
+          .slice(-1)
+          .filter((thought) => thought.needsMoreThoughts);
+        const requested = [...previous, ...(input.needsMoreThoughts ? [input] : [])];
+        if (requested.length > 0) {
+          outstanding.push({
+            gate,
+            message: `Thought ${requested.map((thought) => thought.thoughtNumber).join(' and ')} asked for more thoughts.`,
+            thoughts: requested.map((thought) => thought.thoughtNumber),
+          });
+        }
+        break;
+      }
+      case 'no-pending-revisions': {
+        const stale = findStaleThoughts(candidate);
+        if (stale.length > 0) {
+          outstanding.push({
+            gate,
+            message: `Thought ${stale.join(', ')} depends on reasoning that was revised since; revise it in turn.`,
+            thoughts: stale,
+          });
+        }
+        const pending = unresolvedContradictions(candidate).filter((n) => !stale.includes(n));
+        if (pending.length > 0) {
+          outstanding.push({
+            gate,
+            message: `Thought ${pending.join(', ')} contradicts earlier reasoning that was never revised.`,
+            thoughts: pending,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return outstanding;
+}
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { EffectiveThought, resolveEffectiveChain } from './chain';
+import { BRANCH_STATUSES } from './branches';
+import { THOUGHT_STAGES } from './stages';
+import { ReasoningSession, SessionIdSchema } from './session-store';
+
+/**
+ * Zod schema for validating darbot_deepmind_conclude tool inputs
+ */
+export const ConcludeSchema = z.object({
+  sessionId: SessionIdSchema.optional().describe('Reasoning session to conclude'),
+  answer: z.string().min(1).describe('The final answer'),
+  supportingThoughts: z
+    .array(z.number().int().positive())
+    .min(1)
+    .describe('Thought numbers the answer rests on'),
+  branchId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Branch holding the line of reasoning that was followed'),
+  rejectedBranches: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Branches considered and rejected (defaults to the abandoned branches)'),
+});
+
+export type ConcludeInput = z.infer<typeof ConcludeSchema>;
+
+const OutlineStepSchema = z.object({
+  thoughtNumber: z.number().int().positive(),
+  stage: z.enum(THOUGHT_STAGES).optional(),
+  summary: z.string(),
+});
+
+/**
+ * A stored final answer, journaled so it survives restarts
+ */
+export const ConclusionRecordSchema = z.object({
+  answer: z.string(),
+  supportingThoughts: z.array(z.number().int().positive()),
+  /** Branch followed to the answer; undefined for the mainline */
+  branchId: z.string().optional(),
+  rejectedBranches: z.array(
+    z.object({
+      branchId: z.string(),
+      status: z.enum(BRANCH_STATUSES),
+      rationale: z.string().optional(),
+    })
+  ),
+  /** One step per thought on the path taken, revisions applied */
+  outline: z.array(OutlineStepSchema),
+  /** History length when the session was concluded */
+  historyLength: z.number().int().nonnegative(),
+  concludedAt: z.string(),
+});
+
+export type ConclusionRecord = z.infer<typeof ConclusionRecordSchema>;
+export type OutlineStep = z.infer<typeof OutlineStepSchema>;
+
+const OUTLINE_SUMMARY_LENGTH = 100;
+
+/**
+ * Shortens a thought to its first sentence, capped for the outline
+ */
+function summarize(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const sentence = /^(.+?[.!?])(\s|$)/.exec(flat)?.[1] ?? flat;
+  return sentence.length > OUTLINE_SUMMARY_LENGTH
+    ? `${sentence.slice(0, OUTLINE_SUMMARY_LENGTH - 1)}…`
+    : sentence;
+}
+
+/**
+ * Validates a conclusion against the session and builds the record to store. Cited thoughts
+ * must be the latest version of their position on the path taken or, when the path does not
+ * hold them, on a lane that recorded them.
+ */
+export function buildConclusion(session: ReasoningSession, input: ConcludeInput): ConclusionRecord {
+  const history = session.thoughtHistory;
+  if (history.length === 0) {
+    throw new Error(`Session ${session.id} has no thoughts to conclude.`);
+  }
+
+  const branchIds = Object.keys(session.branches);
+  const unknownBranch = [input.branchId, ...(input.rejectedBranches ?? [])].find(
+    (branchId) => branchId !== undefined && !branchIds.includes(branchId)
+  );
+  if (unknownBranch !== undefined) {
+    throw new Error(`Unknown branch "${unknownBranch}".`);
+  }
+
+  const selected = Object.values(session.branchRecords).filter(
+    (record) => record.status === 'selected'
+  );
+  const pathBranch = input.branchId ?? (selected.length === 1 ? selected[0].branchId : undefined);
+  if (pathBranch !== undefined && input.rejectedBranches?.includes(pathBranch)) {
+    throw new Error(`Branch "${pathBranch}" cannot be both the path taken and rejected.`);
+  }
+
+  // Thought numbers can repeat across lanes, so a citation is checked per lane: the path taken
+  // decides when it holds the number, otherwise it must be current on a lane that recorded it
+  const chains = new Map<string | undefined, EffectiveThought[]>();
+  const latestVersion = (
+    branchId: string | undefined,
+    thoughtNumber: number
+  ): number | undefined => {
+    let entries = chains.get(branchId);
+    if (!entries) {
+      entries = resolveEffectiveChain(history, branchId).thoughts;
+      chains.set(branchId, entries);
+    }
+    return entries.some((entry) => entry.thoughtNumber === thoughtNumber)
+      ? thoughtNumber
+      : entries.find((entry) => entry.lineage.includes(thoughtNumber))?.thoughtNumber;
+  };
+  const problems: string[] = [];
+  for (const thoughtNumber of input.supportingThoughts) {
+    const lanes = history
+      .filter((thought) => thought.thoughtNumber === thoughtNumber)
+      .map((thought) => thought.branchId);
+    if (lanes.length === 0) {
+      problems.push(`Thought ${thoughtNumber} was never recorded.`);
+      continue;
+    }
+    const onPath = latestVersion(pathBranch, thoughtNumber);
+    const versions =
+      onPath !== undefined ? [onPath] : lanes.map((lane) => latestVersion(lane, thoughtNumber));
+    if (!versions.includes(thoughtNumber)) {
+      problems.push(`Thought ${thoughtNumber} is superseded by revision ${versions[0]}.`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Cannot cite unsupported thoughts: ${problems.join(' ')}`);
+  }
+
+  const rejectedIds =
+    input.rejectedBranches ??
+    Object.values(session.branchRecords)
+      .filter((record) => record.status === 'abandoned')
+      .map((record) => record.branchId);
+
+  return {
+    answer: input.answer,
+    supportingThoughts: [...new Set(input.supportingThoughts)].sort((a, b) => a - b),
+    branchId: pathBranch,
+    rejectedBranches: rejectedIds.map((branchId) => {
+      const record = session.branchRecords[branchId];
+      return { branchId, status: record.status, rationale: record.rationale };
+    }),
+    outline: resolveEffectiveChain(history, pathBranch).thoughts.map((entry) => ({
+      thoughtNumber: entry.thoughtNumber,
+      stage: entry.stage,
+      summary: summarize(entry.thought),
+    })),
+    historyLength: history.length,
+    concludedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,89 @@
+import type { DeepmindInput } from './deepmind-server';
+import type { BranchRecord, BranchStatus } from './branches';
+import type { ReasoningSession } from './session-store';
+
+/**
+ * Running confidence aggregate over the scored thoughts of a branch
+ */
+export interface ConfidenceAggregate {
+  /** Number of thoughts that carried a confidence score */
+  scored: number;
+  latest: number;
+  mean: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * One entry of the branch ranking
+ */
+export interface BranchRanking {
+  rank: number;
+  branchId: string;
+  parentBranchId?: string;
+  status: BranchStatus;
+  /** Confidence of the branch's most recent scored thought */
+  confidence?: number;
+  meanConfidence?: number;
+  /** Number of thoughts recorded on the branch */
+  depth: number;
+  evidenceCount: number;
+}
+
+/**
+ * Folds a thought's confidence and evidence into its branch's running aggregates
+ */
+export function recordBranchConfidence(record: BranchRecord, input: DeepmindInput): void {
+  if (input.evidence && input.evidence.length > 0) {
+    record.evidenceCount = (record.evidenceCount ?? 0) + input.evidence.length;
+  }
+  if (input.confidence === undefined) {
+    return;
+  }
+
+  const previous = record.confidence;
+  if (!previous) {
+    record.confidence = {
+      scored: 1,
+      latest: input.confidence,
+      mean: input.confidence,
+      min: input.confidence,
+      max: input.confidence,
+    };
+    return;
+  }
+
+  const scored = previous.scored + 1;
+  record.confidence = {
+    scored,
+    latest: input.confidence,
+    mean: previous.mean + (input.confidence - previous.mean) / scored,
+    min: Math.min(previous.min, input.confidence),
+    max: Math.max(previous.max, input.confidence),
+  };
+}
+
+/**
+ * Orders a session's open branches by their latest confidence, then by depth. Branches
+ * without any scored thought rank last.
+ */
+export function rankBranches(session: ReasoningSession): BranchRanking[] {
+  return Object.values(session.branchRecords)
+    .filter((record) => record.status === 'open')
+    .map((record) => ({
+      branchId: record.branchId,
+      parentBranchId: record.parentBranchId,
+      status: record.status,
+      confidence: record.confidence?.latest,
+      meanConfidence: record.confidence?.mean,
+      depth: session.branches[record.branchId]?.length ?? 0,
+      evidenceCount: record.evidenceCount ?? 0,
+    }))
+    .sort(
+      (a, b) =>
+        (b.confidence ?? -1) - (a.confidence ?? -1) ||
+        b.depth - a.depth ||
+        a.branchId.localeCompare(b.branchId)
+    )
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+}
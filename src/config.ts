@@ -0,0 +1,526 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { describeError, getLogger, LOG_FORMATS, LOG_LEVELS } from './logger';
+import { THOUGHT_STYLES } from './renderers';
+import { VALIDATION_MODES } from './integrity';
+import { COMPLETION_GATES, COMPLETION_MODES } from './completion';
+import { TRANSPORTS } from './http-transport';
+
+/**
+ * Config file looked for in the working directory when no other file is named
+ */
+export const CONFIG_FILE_NAME = 'darbot-deepmind.config.json';
+
+/**
+ * Tools that can be turned off or re-described in the config file
+ */
+export const TOOL_NAMES = [
+  'darbot_deepmind',
+  'darbot_deepmind_batch',
+  'darbot_deepmind_export',
+  'darbot_deepmind_chain',
+  'darbot_deepmind_query',
+  'darbot_deepmind_branch',
+  'darbot_deepmind_checkpoint',
+  'darbot_deepmind_conclude',
+  'darbot_deepmind_recall',
+  'microsoft_auth',
+] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+export const AUTH_MODES = ['interactive', 'device-code', 'silent'] as const;
+
+export type AuthMode = (typeof AUTH_MODES)[number];
+
+export const AUTH_OUTPUTS = ['token', 'json', 'status'] as const;
+
+export type AuthOutput = (typeof AUTH_OUTPUTS)[number];
+
+const Count = z.number().int().min(0);
+const Port = z.number().int().min(0).max(65535);
+const Text = z.string().min(1);
+
+const BudgetLimitsSchema = z
+  .strictObject({ maxThoughts: Count, maxBranches: Count, maxBytes: Count })
+  .partial();
+
+/**
+ * Zod schema for the config file. Unknown keys are rejected so typos do not pass silently.
+ */
+export const ConfigFileSchema = z.strictObject({
+  $schema: z.string().optional(),
+  logging: z
+    .strictObject({
+      level: z.enum(LOG_LEVELS),
+      format: z.enum(LOG_FORMATS),
+      disableThoughtLogging: z.boolean(),
+      thoughtStyle: z.enum(THOUGHT_STYLES),
+      thoughtWidth: Count,
+    })
+    .partial()
+    .optional(),
+  limits: z
+    .strictObject({
+      validationMode: z.enum(VALIDATION_MODES),
+      loopThreshold: Count,
+      contextWindow: Count,
+      completionGates: z.union([z.literal('all'), z.array(z.enum(COMPLETION_GATES))]),
+      completionMode: z.enum(COMPLETION_MODES),
+      maxThoughtChars: Count,
+      session: BudgetLimitsSchema,
+      global: BudgetLimitsSchema,
+      sessionTtlMinutes: Count,
+      maxSessions: Count,
+    })
+    .partial()
+    .optional(),
+  storage: z
+    .strictObject({
+      journalDir: Text,
+      memoryDir: Text,
+      projectDir: Text,
+      memoryMaxEntries: Count,
+      memoryMaxAgeDays: Count,
+    })
+    .partial()
+    .optional(),
+  tools: z
+    .strictObject({
+      enabled: z.array(z.enum(TOOL_NAMES)).min(1),
+      descriptions: z.partialRecord(z.enum(TOOL_NAMES), Text),
+    })
+    .partial()
+    .optional(),
+  auth: z
+    .strictObject({
+      mode: z.enum(AUTH_MODES),
+      output: z.enum(AUTH_OUTPUTS),
+      timeoutMinutes: z.number().min(1),
+      alias: Text,
+      clientId: Text,
+      resourceId: Text,
+      tenantId: Text,
+    })
+    .partial()
+    .optional(),
+  transport: z
+    .strictObject({
+      transport: z.enum(TRANSPORTS),
+      host: Text,
+      port: Port,
+      allowedHosts: z.array(Text),
+      allowedOrigins: z.array(Text),
+      adminHost: Text,
+      adminPort: Port,
+      sessionIdleMinutes: Count,
+    })
+    .partial()
+    .optional(),
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/**
+ * One setting: where it sits in the file, the environment variable and flag that override
+ * it, and whether a change to the file applies without a restart
+ */
+interface ConfigSetting {
+  path: string;
+  env: string;
+  flag?: string;
+  reload: boolean;
+}
+
+/**
+ * Every file setting that has an environment variable. Transport flags are read by
+ * `parseTransportOptions`, so they are not listed here.
+ */
+const SETTINGS: ConfigSetting[] = [
+  { path: 'logging.level', env: 'LOG_LEVEL', flag: '--log-level', reload: true },
+  { path: 'logging.format', env: 'LOG_FORMAT', flag: '--log-format', reload: true },
+  { path: 'logging.disableThoughtLogging', env: 'DISABLE_THOUGHT_LOGGING', reload: true },
+  {
+    path: 'logging.thoughtStyle',
+    env: 'DEEPMIND_THOUGHT_STYLE',
+    flag: '--thought-style',
+    reload: true,
+  },
+  {
+    path: 'logging.thoughtWidth',
+    env: 'DEEPMIND_THOUGHT_WIDTH',
+    flag: '--thought-width',
+    reload: true,
+  },
+  {
+    path: 'limits.validationMode',
+    env: 'DEEPMIND_VALIDATION_MODE',
+    flag: '--validation-mode',
+    reload: true,
+  },
+  { path: 'limits.loopThreshold', env: 'DEEPMIND_LOOP_THRESHOLD', reload: true },
+  { path: 'limits.contextWindow', env: 'DEEPMIND_CONTEXT_WINDOW', reload: true },
+  { path: 'limits.completionGates', env: 'DEEPMIND_COMPLETION_GATES', reload: true },
+  {
+    path: 'limits.completionMode',
+    env: 'DEEPMIND_COMPLETION_MODE',
+    flag: '--completion-mode',
+    reload: true,
+  },
+  { path: 'limits.maxThoughtChars', env: 'DEEPMIND_MAX_THOUGHT_CHARS', reload: true },
+  { path: 'limits.session.maxThoughts', env: 'DEEPMIND_SESSION_MAX_THOUGHTS', reload: true },
+  { path: 'limits.session.maxBranches', env: 'DEEPMIND_SESSION_MAX_BRANCHES', reload: true },
+  { path: 'limits.session.maxBytes', env: 'DEEPMIND_SESSION_MAX_BYTES', reload: true },
+  { path: 'limits.global.maxThoughts', env: 'DEEPMIND_GLOBAL_MAX_THOUGHTS', reload: true },
+  { path: 'limits.global.maxBranches', env: 'DEEPMIND_GLOBAL_MAX_BRANCHES', reload: true },
+  { path: 'limits.global.maxBytes', env: 'DEEPMIND_GLOBAL_MAX_BYTES', reload: true },
+  { path: 'limits.sessionTtlMinutes', env: 'DEEPMIND_SESSION_TTL_MINUTES', reload: false },
+  { path: 'limits.maxSessions', env: 'DEEPMIND_MAX_SESSIONS', reload: false },
+  {
+    path: 'storage.journalDir',
+    env: 'DEEPMIND_JOURNAL_DIR',
+    flag: '--journal-dir',
+    reload: false,
+  },
+  { path: 'storage.memoryDir', env: 'DEEPMIND_MEMORY_DIR', flag: '--memory-dir', reload: false },
+  { path: 'storage.projectDir', env: 'DEEPMIND_PROJECT_DIR', reload: false },
+  { path: 'storage.memoryMaxEntries', env: 'DEEPMIND_MEMORY_MAX_ENTRIES', reload: false },
+  { path: 'storage.memoryMaxAgeDays', env: 'DEEPMIND_MEMORY_MAX_AGE_DAYS', reload: false },
+  { path: 'tools.enabled', env: 'DEEPMIND_TOOLS', flag: '--tools', reload: true },
+  { path: 'auth.mode', env: 'DEEPMIND_AUTH_MODE', reload: true },
+  { path: 'auth.output', env: 'DEEPMIND_AUTH_OUTPUT', reload: true },
+  { path: 'auth.timeoutMinutes', env: 'DEEPMIND_AUTH_TIMEOUT_MINUTES', reload: true },
+  { path: 'auth.alias', env: 'DEEPMIND_AUTH_ALIAS', reload: true },
+  { path: 'auth.clientId', env: 'DEEPMIND_AUTH_CLIENT_ID', reload: true },
+  { path: 'auth.resourceId', env: 'DEEPMIND_AUTH_RESOURCE_ID', reload: true },
+  { path: 'auth.tenantId', env: 'DEEPMIND_AUTH_TENANT_ID', reload: true },
+  { path: 'transport.transport', env: 'MCP_TRANSPORT', reload: false },
+  { path: 'transport.host', env: 'MCP_HOST', reload: false },
+  { path: 'transport.port', env: 'MCP_PORT', reload: false },
+  { path: 'transport.allowedHosts', env: 'MCP_ALLOWED_HOSTS', reload: false },
+  { path: 'transport.allowedOrigins', env: 'MCP_ALLOWED_ORIGINS', reload: false },
+  { path: 'transport.adminHost', env: 'MCP_ADMIN_HOST', reload: false },
+  { path: 'transport.adminPort', env: 'MCP_ADMIN_PORT', reload: false },
+  { path: 'transport.sessionIdleMinutes', env: 'MCP_SESSION_IDLE_MINUTES', reload: false },
+];
+
+/** Setting path for the tool description overrides, which only the file can set */
+const DESCRIPTIONS_PATH = 'tools.descriptions';
+
+/**
+ * Error raised when the config file cannot be read or fails validation
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    reason: string
+  ) {
+    super(`Invalid config file ${file}: ${reason}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * The settings in effect
+ */
+export interface DeepmindConfig {
+  /** Config file the settings were read from, when there was one */
+  file?: string;
+  /** Every setting as an environment variable: the file, overridden by the environment,
+   * overridden by flags */
+  env: NodeJS.ProcessEnv;
+  /** Tool description overrides from the file */
+  descriptions: Partial<Record<ToolName, string>>;
+}
+
+/**
+ * Reads the value of a flag given as `--flag value` or `--flag=value`; the last one wins
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+  let value: string | undefined;
+  for (let index = 0; index < argv.length; index++) {
+    const [flag, inline] = argv[index].split(/=(.*)/s, 2);
+    if (flag !== name) {
+      continue;
+    }
+    value = inline ?? argv[++index];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${name}`);
+    }
+  }
+  return value;
+}
+
+/**
+ * Whether an environment variable is set to something other than blanks
+ */
+function isSet(value: string | undefined): value is string {
+  return value !== undefined && value.trim() !== '';
+}
+
+/**
+ * Finds the config file: `--config`, then DEEPMIND_CONFIG, then darbot-deepmind.config.json
+ * in the working directory. Only the default may be missing.
+ */
+export function resolveConfigPath(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): { file: string; explicit: boolean } {
+  const named = readFlag(argv, '--config') ?? env.DEEPMIND_CONFIG;
+  return isSet(named)
+    ? { file: path.resolve(cwd, named.trim()), explicit: true }
+    : { file: path.resolve(cwd, CONFIG_FILE_NAME), explicit: false };
+}
+
+/**
+ * Reads and validates a config file
+ */
+export function readConfigFile(file: string): ConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(file, describeError(error));
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError(
+      file,
+      parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join(', ')
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Looks up a dotted setting path in the file
+ */
+function fileValue(config: ConfigFile, settingPath: string): unknown {
+  let value: unknown = config;
+  for (const key of settingPath.split('.')) {
+    value =
+      typeof value === 'object' && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return value;
+}
+
+/**
+ * Writes a file value the way the matching environment variable spells it
+ */
+function toEnvValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return value.join(',');
+  }
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : undefined;
+}
+
+/**
+ * Resolves the settings in effect. Each setting comes from the first of its flag, its
+ * environment variable and the config file that is set.
+ */
+export function loadConfig(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): DeepmindConfig {
+  const { file, explicit } = resolveConfigPath(argv, env, cwd);
+  const found = explicit || fs.existsSync(file);
+  const contents = found ? readConfigFile(file) : {};
+  const merged: NodeJS.ProcessEnv = { ...env };
+
+  for (const setting of SETTINGS) {
+    const flag = setting.flag ? readFlag(argv, setting.flag) : undefined;
+    const fromFile = toEnvValue(fileValue(contents, setting.path));
+    if (isSet(flag)) {
+      merged[setting.env] = flag;
+    } else if (!isSet(env[setting.env]) && fromFile !== undefined) {
+      merged[setting.env] = fromFile;
+    }
+  }
+
+  return {
+    file: found ? file : undefined,
+    env: merged,
+    descriptions: contents.tools?.descriptions ?? {},
+  };
+}
+
+/**
+ * Defaults applied to microsoft_auth calls that leave the matching argument out
+ */
+export interface AuthDefaults {
+  mode?: AuthMode;
+  output?: AuthOutput;
+  timeoutMinutes?: number;
+  alias?: string;
+  clientId?: string;
+  resourceId?: string;
+  tenantId?: string;
+}
+
+/**
+ * Reads the microsoft_auth defaults, skipping unknown modes and malformed timeouts
+ */
+export function readAuthDefaults(env: NodeJS.ProcessEnv = process.env): AuthDefaults {
+  const text = (name: string): string | undefined => env[name]?.trim() || undefined;
+  const timeout = Number(text('DEEPMIND_AUTH_TIMEOUT_MINUTES'));
+  return {
+    mode: AUTH_MODES.find((mode) => mode === text('DEEPMIND_AUTH_MODE')),
+    output: AUTH_OUTPUTS.find((output) => output === text('DEEPMIND_AUTH_OUTPUT')),
+    timeoutMinutes: timeout >= 1 ? timeout : undefined,
+    alias: text('DEEPMIND_AUTH_ALIAS'),
+    clientId: text('DEEPMIND_AUTH_CLIENT_ID'),
+    resourceId: text('DEEPMIND_AUTH_RESOURCE_ID'),
+    tenantId: text('DEEPMIND_AUTH_TENANT_ID'),
+  };
+}
+
+/**
+ * Applies the tool settings to tool definitions: tools missing from DEEPMIND_TOOLS are
+ * dropped, and descriptions from the file replace the built-in ones. Unknown names in
+ * DEEPMIND_TOOLS are skipped; when none are left, every tool stays enabled.
+ */
+export function configureTools<T extends { name: string; description?: string }>(
+  tools: T[],
+  config: DeepmindConfig
+): T[] {
+  const names = (config.env.DEEPMIND_TOOLS ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => tools.some((tool) => tool.name === name));
+  const descriptions: Partial<Record<string, string>> = config.descriptions;
+
+  return tools
+    .filter((tool) => names.length === 0 || names.includes(tool.name))
+    .map((tool) => {
+      const description = descriptions[tool.name];
+      return description ? { ...tool, description } : tool;
+    });
+}
+
+/**
+ * What a reload changed
+ */
+export interface ConfigChange {
+  config: DeepmindConfig;
+  /** Settings whose new value is now in effect */
+  applied: string[];
+  /** Settings that changed but keep their old value until the server restarts */
+  restartRequired: string[];
+}
+
+export type ConfigListener = (change: ConfigChange) => void;
+
+/**
+ * Holds the settings in effect and reloads them when the config file changes. The
+ * environment and flags are those the process started with, so they keep overriding the
+ * file across reloads.
+ */
+export class ConfigManager {
+  private current: DeepmindConfig;
+  private listeners: ConfigListener[] = [];
+  private readonly log = getLogger('config');
+
+  constructor(
+    private readonly argv: string[] = process.argv.slice(2),
+    private readonly env: NodeJS.ProcessEnv = process.env,
+    private readonly cwd: string = process.cwd()
+  ) {
+    this.current = loadConfig(argv, env, cwd);
+  }
+
+  public get config(): DeepmindConfig {
+    return this.current;
+  }
+
+  /**
+   * Registers a listener called after each reload that applied something. Returns a
+   * function that removes it.
+   */
+  public onChange(listener: ConfigListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((entry) => entry !== listener);
+    };
+  }
+
+  /**
+   * Re-reads the config file. Settings that need a restart keep their old value. Returns
+   * undefined when nothing changed, and throws a ConfigError, keeping the current settings,
+   * when the file is invalid.
+   */
+  public reload(): ConfigChange | undefined {
+    const next = loadConfig(this.argv, this.env, this.cwd);
+    const applied: string[] = [];
+    const restartRequired: string[] = [];
+
+    for (const setting of SETTINGS) {
+      if (next.env[setting.env] === this.current.env[setting.env]) {
+        continue;
+      }
+      if (setting.reload) {
+        applied.push(setting.path);
+      } else {
+        restartRequired.push(setting.path);
+        next.env[setting.env] = this.current.env[setting.env];
+      }
+    }
+    if (JSON.stringify(next.descriptions) !== JSON.stringify(this.current.descriptions)) {
+      applied.push(DESCRIPTIONS_PATH);
+    }
+
+    if (applied.length === 0 && restartRequired.length === 0) {
+      return undefined;
+    }
+
+    this.current = next;
+    const change: ConfigChange = { config: next, applied, restartRequired };
+    if (applied.length > 0) {
+      for (const listener of this.listeners) {
+        try {
+          listener(change);
+        } catch (error) {
+          this.log.warning('Config listener failed', { error: describeError(error) });
+        }
+      }
+    }
+    return change;
+  }
+
+  /**
+   * Polls the config file and reloads it when it changes, including when it is created or
+   * deleted. Invalid edits are logged and ignored. Returns a function that stops watching.
+   */
+  public watch(intervalMs = 1000): () => void {
+    const { file } = resolveConfigPath(this.argv, this.env, this.cwd);
+    const onFileChange = (): void => {
+      try {
+        const change = this.reload();
+        if (change?.applied.length) {
+          this.log.info('Reloaded config file', { file, applied: change.applied });
+        }
+        if (change?.restartRequired.length) {
+          this.log.warning('Some config changes apply after a restart', {
+            file,
+            settings: change.restartRequired,
+          });
+        }
+      } catch (error) {
+        this.log.error('Ignoring invalid config file', { file, error: describeError(error) });
+      }
+    };
+
+    // Polling survives editors that replace the file instead of writing it in place
+    fs.watchFile(file, { interval: intervalMs, persistent: false }, onFileChange);
+    return () => fs.unwatchFile(file, onFileChange);
+  }
+}
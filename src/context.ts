@@ -0,0 +1,102 @@
+import type { DeepmindInput } from './deepmind-server';
+import type { ReasoningSession } from './session-store';
+import { resolveEffectiveChain } from './chain';
+import { findHypothesis, summarizeHypotheses, ThoughtStage } from './stages';
+import { snippet } from './search';
+
+const SUMMARY_LENGTH = 160;
+
+/**
+ * A thought reduced to its number, placement and an excerpt
+ */
+export interface ThoughtDigest {
+  thoughtNumber: number;
+  branchId?: string;
+  stage?: ThoughtStage;
+  summary: string;
+}
+
+/**
+ * An open branch and where it has got to
+ */
+export interface OpenBranchDigest {
+  branchId: string;
+  branchFromThought: number;
+  thoughtCount: number;
+  /** Confidence of the branch's latest scored thought */
+  confidence?: number;
+  lastThought?: ThoughtDigest;
+}
+
+/**
+ * Compact, extractive summary of where a session stands, returned in context window mode
+ * so an agent can recover its place after its own context is compacted
+ */
+export interface RollingSummary {
+  /** Branch whose chain recentThoughts follows; undefined for the mainline */
+  branchId?: string;
+  /** The last effective thoughts of that chain, revisions applied, oldest first */
+  recentThoughts: ThoughtDigest[];
+  /** Effective thoughts of the chain left out of recentThoughts */
+  omittedThoughts: number;
+  openBranches: OpenBranchDigest[];
+  unresolvedHypotheses: ThoughtDigest[];
+}
+
+/**
+ * Reduces a thought to a digest
+ */
+function digest(thought: {
+  thoughtNumber: number;
+  thought: string;
+  branchId?: string;
+  stage?: ThoughtStage;
+}): ThoughtDigest {
+  return {
+    thoughtNumber: thought.thoughtNumber,
+    branchId: thought.branchId,
+    stage: thought.stage,
+    summary: snippet(thought.thought, undefined, SUMMARY_LENGTH),
+  };
+}
+
+/**
+ * Builds the rolling summary of a session from the lane of the latest thought, keeping
+ * the last `window` effective thoughts
+ */
+export function buildRollingSummary(
+  session: ReasoningSession,
+  latest: DeepmindInput,
+  window: number
+): RollingSummary {
+  const history = session.thoughtHistory;
+  const chain = resolveEffectiveChain(history, latest.branchId);
+  const recent = chain.thoughts.slice(-window);
+
+  const openBranches = Object.values(session.branchRecords)
+    .filter((record) => record.status === 'open')
+    .map((record) => {
+      const thoughts = session.branches[record.branchId] ?? [];
+      const last = thoughts[thoughts.length - 1];
+      return {
+        branchId: record.branchId,
+        branchFromThought: record.branchFromThought,
+        thoughtCount: thoughts.length,
+        confidence: record.confidence?.latest,
+        lastThought: last ? digest(last) : undefined,
+      };
+    });
+
+  const unresolvedHypotheses = summarizeHypotheses(history)
+    .unverified.map((thoughtNumber) => findHypothesis(history, thoughtNumber))
+    .filter((thought): thought is DeepmindInput => thought !== undefined)
+    .map(digest);
+
+  return {
+    branchId: latest.branchId,
+    recentThoughts: recent.map(digest),
+    omittedThoughts: chain.thoughts.length - recent.length,
+    openBranches,
+    unresolvedHypotheses,
+  };
+}
@@ -0,0 +1,1343 @@
+import { z } from 'zod';
+import { describeError, getLogger } from './logger';
+import {
+  DEFAULT_THOUGHT_WIDTH,
+  parseThoughtStyle,
+  renderThought,
+  thoughtDepth,
+  ThoughtStyle,
+} from './renderers';
+import {
+  createSession,
+  DEFAULT_SESSION_ID,
+  ReasoningSession,
+  SessionCounters,
+  SessionIdSchema,
+  SessionStore,
+} from './session-store';
+import { ThoughtJournal } from './journal';
+import { ExportSchema, renderSession } from './export';
+import { ChainSchema, EffectiveChain, resolveEffectiveChain } from './chain';
+import {
+  findHypothesis,
+  summarizeHypotheses,
+  THOUGHT_STAGES,
+  ThoughtStage,
+  Verdict,
+  VERDICTS,
+} from './stages';
+import {
+  assertDependenciesRecorded,
+  assertReferentialIntegrity,
+  IntegrityError,
+  VALIDATION_MODES,
+  ValidationMode,
+} from './integrity';
+import {
+  applyBranchEvent,
+  BranchSummary,
+  BranchToolSchema,
+  planBranchEvent,
+  registerBranchThought,
+  summarizeBranches,
+  validateBranchThought,
+} from './branches';
+import { rankBranches, recordBranchConfidence } from './confidence';
+import {
+  applyCheckpointEvent,
+  CheckpointToolSchema,
+  planCheckpoint,
+  planRestore,
+  planRollback,
+} from './checkpoints';
+import { assertAcyclic, findStaleThoughts } from './dependencies';
+import { buildRollingSummary, RollingSummary } from './context';
+import { QuerySchema, queryThoughts } from './query';
+import {
+  DEFAULT_MEMORY_RETENTION,
+  memoryFromConclusion,
+  memoryFromFinalThought,
+  MemoryEntry,
+  MemoryStore,
+  RecallSchema,
+} from './memory';
+import { BatchItemError, DeepmindBatchSchema } from './batch';
+import { buildConclusion, ConcludeSchema, ConclusionRecord } from './conclusion';
+import {
+  AnalyzerWarning,
+  analyzeThought,
+  countFlaggedStreak,
+  isBlocking,
+  LoopDetectedError,
+} from './analyzer';
+import {
+  assertWithinBudget,
+  BudgetConfig,
+  BudgetExceededError,
+  BudgetRemaining,
+  hasBudgets,
+  remainingBudget,
+  thoughtBytes,
+} from './budgets';
+import {
+  CompletionBlockedError,
+  CompletionGate,
+  CompletionMode,
+  evaluateCompletion,
+  OutstandingItem,
+  parseCompletionGates,
+} from './completion';
+
+/**
+ * Zod schema for validating darbot_deepmind tool inputs
+ */
+export const DeepmindSchema = z.object({
+  thought: z.string().min(1).describe('The current thinking step'),
+  nextThoughtNeeded: z.boolean().describe('Whether another thought step is needed'),
+  thoughtNumber: z.number().int().positive().describe('Current thought number'),
+  totalThoughts: z.number().int().positive().describe('Estimated total thoughts needed'),
+  isRevision: z.boolean().optional().describe('Whether this revises previous thinking'),
+  revisesThought: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Which thought is being reconsidered'),
+  branchFromThought: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Branching point thought number'),
+  branchId: z.string().optional().describe('Branch identifier'),
+  parentBranchId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Branch that branchFromThought belongs to, for nesting branches'),
+  needsMoreThoughts: z.boolean().optional().describe('If more thoughts are needed'),
+  sessionId: SessionIdSchema.optional().describe('Reasoning session identifier'),
+  stage: z.enum(THOUGHT_STAGES).optional().describe('Reasoning stage this thought belongs to'),
+  verifiesThought: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Hypothesis thought number this verification checks'),
+  verdict: z.enum(VERDICTS).optional().describe('Outcome of verifying the hypothesis'),
+  validation: z
+    .enum(VALIDATION_MODES)
+    .optional()
+    .describe('Validation mode for this and later thoughts in the session'),
+  pruneBranches: z
+    .boolean()
+    .optional()
+    .describe('Hide abandoned and merged branches from responses for this session'),
+  confidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('How strongly the thought is believed, from 0 to 1'),
+  evidence: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Facts, observations or sources supporting the thought'),
+  dependsOn: z
+    .array(z.number().int().positive())
+    .optional()
+    .describe('Earlier thought numbers this thought builds on'),
+  contextWindow: z
+    .number()
+    .int()
+    .min(0)
+    .max(50)
+    .optional()
+    .describe('Return a rolling summary with this many recent thoughts (0 turns it off)'),
+});
+
+export type DeepmindInput = z.infer<typeof DeepmindSchema>;
+
+export interface ThoughtResponse {
+  sessionId: string;
+  thoughtNumber: number;
+  totalThoughts: number;
+  nextThoughtNeeded: boolean;
+  branches: BranchSummary[];
+  thoughtHistoryLength: number;
+  isRevision?: boolean;
+  revisesThought?: number;
+  branchId?: string;
+  branchFromThought?: number;
+  parentBranchId?: string;
+  needsMoreThoughts?: boolean;
+  stage?: ThoughtStage;
+  verifiesThought?: number;
+  verdict?: Verdict;
+  confidence?: number;
+  evidence?: string[];
+  dependsOn?: number[];
+  /** Thoughts whose premises were revised since they were recorded */
+  staleThoughts?: number[];
+  unverifiedHypotheses?: number[];
+  warnings?: AnalyzerWarning[];
+  budget?: BudgetRemaining;
+  outstanding?: OutstandingItem[];
+  context?: RollingSummary;
+}
+
+/**
+ * Outcome of the checks a thought passed before being recorded
+ */
+interface ThoughtCheck {
+  warnings: AnalyzerWarning[];
+  outstanding: OutstandingItem[];
+}
+
+/**
+ * Result returned from a tool handler. A type alias rather than an interface so it stays
+ * assignable to the SDK's index-signature result types.
+ */
+export type ToolResult = {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+};
+
+/**
+ * Summary of a reasoning session
+ */
+export interface SessionInfo {
+  sessionId: string;
+  thoughtHistoryLength: number;
+  branches: BranchSummary[];
+  counters: SessionCounters;
+  /** When the session was concluded, if it has been */
+  concludedAt?: string;
+  createdAt: string;
+  lastAccessedAt: string;
+}
+
+/**
+ * Emitted after a thought has been accepted and stored
+ */
+export interface ThoughtRecordedEvent {
+  sessionId: string;
+  thought: DeepmindInput;
+  /** Position of the thought in the session's history */
+  index: number;
+  /** Whether the thought created the session */
+  isNewSession: boolean;
+}
+
+export type ThoughtListener = (event: ThoughtRecordedEvent) => void;
+
+/**
+ * Emitted after a session changes other than by a new thought: a rollback or restore, a branch
+ * status change or merge, or a conclusion
+ */
+export interface SessionChangedEvent {
+  sessionId: string;
+  change: 'rollback' | 'restore' | 'branch' | 'conclusion';
+}
+
+export type SessionChangeListener = (event: SessionChangedEvent) => void;
+
+/**
+ * Why a tool call was refused: schema validation, an integrity issue, a budget, the loop
+ * detector, a completion gate, or any other rejected input such as an unknown session
+ */
+export const VALIDATION_FAILURE_REASONS = [
+  'schema',
+  'integrity',
+  'budget',
+  'loop',
+  'completion',
+  'rejected',
+] as const;
+
+export type ValidationFailureReason = (typeof VALIDATION_FAILURE_REASONS)[number];
+
+export type ValidationFailureListener = (reason: ValidationFailureReason) => void;
+
+/**
+ * What the live sessions hold, for monitoring
+ */
+export interface ServerStats {
+  sessions: number;
+  thoughts: number;
+  revisions: number;
+  branches: number;
+}
+
+/**
+ * Reads a non-negative integer from the environment, or undefined when unset or malformed
+ */
+function readIntegerEnv(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Reads a positive limit from the environment; unset, malformed or 0 means unlimited
+ */
+function readLimitEnv(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  return readIntegerEnv(env, name) || undefined;
+}
+
+/**
+ * Darbot Deepmind Server class implementing sophisticated reasoning capabilities
+ */
+export class DarbotDeepmindServer {
+  private sessions: SessionStore;
+  private journal?: ThoughtJournal;
+  private memory?: MemoryStore;
+  private thoughtListeners: ThoughtListener[] = [];
+  private sessionListeners: SessionChangeListener[] = [];
+  private failureListeners: ValidationFailureListener[] = [];
+  private readonly log = getLogger('deepmind');
+  private disableThoughtLogging = false;
+  private thoughtStyle: ThoughtStyle = 'box';
+  /** Columns thoughts are wrapped to; the terminal width when unset */
+  private thoughtWidth?: number;
+  private defaultValidation: ValidationMode = 'lenient';
+  /** Consecutive flagged thoughts allowed before further flagged thoughts are refused */
+  private loopThreshold?: number;
+  private budgets: BudgetConfig = { session: {}, global: {} };
+  private completionGates: CompletionGate[] = [];
+  private completionMode: CompletionMode = 'report';
+  /** Recent thoughts in the rolling summary for sessions that do not set a window */
+  private defaultContextWindow?: number;
+
+  /**
+   * Reads the settings from the environment, or from the layered settings of the config file
+   */
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.configure(env);
+
+    const ttlMinutes = readIntegerEnv(env, 'DEEPMIND_SESSION_TTL_MINUTES');
+    this.sessions = new SessionStore({
+      ttlMs: ttlMinutes !== undefined ? ttlMinutes * 60 * 1000 : undefined,
+      maxSessions: readIntegerEnv(env, 'DEEPMIND_MAX_SESSIONS'),
+    });
+
+    const journalDir = env.DEEPMIND_JOURNAL_DIR?.trim();
+    if (journalDir) {
+      this.journal = new ThoughtJournal(journalDir);
+    }
+
+    const memoryDir = env.DEEPMIND_MEMORY_DIR?.trim();
+    if (memoryDir) {
+      this.memory = new MemoryStore(memoryDir, env.DEEPMIND_PROJECT_DIR?.trim() || process.cwd(), {
+        maxEntries:
+          readLimitEnv(env, 'DEEPMIND_MEMORY_MAX_ENTRIES') ?? DEFAULT_MEMORY_RETENTION.maxEntries,
+        maxAgeDays: readLimitEnv(env, 'DEEPMIND_MEMORY_MAX_AGE_DAYS'),
+      });
+    }
+  }
+
+  /**
+   * Applies the settings that can change while sessions are live: logging style, validation,
+   * loop detection, completion gates, budgets and the context window. Storage, eviction and
+   * memory settings are only read by the constructor.
+   */
+  public configure(env: NodeJS.ProcessEnv): void {
+    this.disableThoughtLogging = env.DISABLE_THOUGHT_LOGGING?.toLowerCase() === 'true';
+    this.thoughtStyle = parseThoughtStyle(env.DEEPMIND_THOUGHT_STYLE) ?? 'box';
+    this.thoughtWidth = readLimitEnv(env, 'DEEPMIND_THOUGHT_WIDTH');
+    this.defaultValidation =
+      env.DEEPMIND_VALIDATION_MODE?.toLowerCase() === 'strict' ? 'strict' : 'lenient';
+
+    this.loopThreshold = readLimitEnv(env, 'DEEPMIND_LOOP_THRESHOLD');
+    this.defaultContextWindow = readLimitEnv(env, 'DEEPMIND_CONTEXT_WINDOW');
+    this.completionGates = parseCompletionGates(env.DEEPMIND_COMPLETION_GATES);
+    this.completionMode =
+      env.DEEPMIND_COMPLETION_MODE?.toLowerCase() === 'reject' ? 'reject' : 'report';
+
+    this.budgets = {
+      session: {
+        thoughts: readLimitEnv(env, 'DEEPMIND_SESSION_MAX_THOUGHTS'),
+        branches: readLimitEnv(env, 'DEEPMIND_SESSION_MAX_BRANCHES'),
+        bytes: readLimitEnv(env, 'DEEPMIND_SESSION_MAX_BYTES'),
+      },
+      global: {
+        thoughts: readLimitEnv(env, 'DEEPMIND_GLOBAL_MAX_THOUGHTS'),
+        branches: readLimitEnv(env, 'DEEPMIND_GLOBAL_MAX_BRANCHES'),
+        bytes: readLimitEnv(env, 'DEEPMIND_GLOBAL_MAX_BYTES'),
+      },
+      thoughtChars: readLimitEnv(env, 'DEEPMIND_MAX_THOUGHT_CHARS'),
+    };
+  }
+
+  /**
+   * Returns a live session, replaying its journal first if it is not in memory
+   */
+  private getSession(sessionId: string = DEFAULT_SESSION_ID): ReasoningSession {
+    const isLive = this.sessions.has(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (!isLive && this.journal) {
+      this.replayJournal(session);
+    }
+    return session;
+  }
+
+  /**
+   * Returns an existing session, live or journaled, without creating a new one
+   */
+  private findSession(sessionId: string = DEFAULT_SESSION_ID): ReasoningSession | undefined {
+    if (this.sessions.has(sessionId) || this.journal?.exists(sessionId)) {
+      return this.getSession(sessionId);
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns an existing session for a read that must not count as activity: the idle
+   * timer and eviction order are left alone, and a journaled session that is not in
+   * memory is replayed into a copy the store does not keep
+   */
+  private peekSession(sessionId: string = DEFAULT_SESSION_ID): ReasoningSession | undefined {
+    const live = this.sessions.peek(sessionId);
+    if (live || !this.journal?.exists(sessionId)) {
+      return live;
+    }
+    const session = createSession(sessionId, Date.now());
+    this.replayJournal(session);
+    return session;
+  }
+
+  /**
+   * Rebuilds a session's in-memory state from its journal
+   */
+  private replayJournal(session: ReasoningSession): void {
+    if (!this.journal?.exists(session.id)) {
+      return;
+    }
+
+    const { records, truncatedTail } = this.journal.read(session.id);
+    const startedAt = records.length > 0 ? Date.parse(records[0].at) : NaN;
+    if (startedAt > 0) {
+      session.createdAt = startedAt;
+    }
+    for (const record of records) {
+      switch (record.type) {
+        case 'thought':
+          this.recordThought(session, record.data);
+          break;
+        case 'branch':
+          applyBranchEvent(session, record.data);
+          break;
+        case 'checkpoint':
+          applyCheckpointEvent(session, record.data, (thought) =>
+            this.recordThought(session, thought)
+          );
+          break;
+        case 'conclusion':
+          session.conclusion = record.data;
+          break;
+      }
+    }
+
+    if (truncatedTail) {
+      this.log.warning('Dropped incomplete last record in journal', { sessionId: session.id });
+    }
+  }
+
+  /**
+   * Replays every journaled session into memory. Returns the number of sessions restored.
+   */
+  public async restore(): Promise<number> {
+    if (!this.journal) {
+      return 0;
+    }
+
+    let restored = 0;
+    for (const sessionId of await this.journal.listSessions()) {
+      if (!SessionIdSchema.safeParse(sessionId).success) {
+        continue;
+      }
+      try {
+        this.sessions.delete(sessionId);
+        this.getSession(sessionId);
+        restored++;
+      } catch (error) {
+        this.sessions.delete(sessionId);
+        this.log.error('Could not restore session', { sessionId, error: describeError(error) });
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Validates thought revision logic
+   */
+  private validateRevision(input: DeepmindInput): void {
+    if (input.isRevision && input.revisesThought !== undefined) {
+      if (input.revisesThought >= input.thoughtNumber) {
+        throw new Error(
+          'Cannot revise a future thought. revisesThought must be less than current thoughtNumber.'
+        );
+      }
+      if (input.revisesThought < 1) {
+        throw new Error('revisesThought must be a positive number.');
+      }
+    }
+  }
+
+  /**
+   * Validates thought branching logic
+   */
+  private validateBranching(input: DeepmindInput): void {
+    if (input.branchFromThought !== undefined) {
+      if (input.branchFromThought >= input.thoughtNumber) {
+        throw new Error(
+          'Cannot branch from a future thought. branchFromThought must be less than current thoughtNumber.'
+        );
+      }
+      if (!input.branchId) {
+        throw new Error('branchId is required when branchFromThought is specified.');
+      }
+    }
+  }
+
+  /**
+   * Validates stage tagging and links from verification thoughts to hypotheses
+   */
+  private validateStage(input: DeepmindInput, history: DeepmindInput[]): void {
+    if (input.verdict !== undefined && input.verifiesThought === undefined) {
+      throw new Error('verifiesThought is required when verdict is specified.');
+    }
+    if (input.verifiesThought === undefined) {
+      return;
+    }
+
+    if (input.stage === undefined) {
+      input.stage = 'verification';
+    } else if (input.stage !== 'verification') {
+      throw new Error(
+        `verifiesThought is only valid on verification thoughts, but stage is "${input.stage}".`
+      );
+    }
+    if (input.verifiesThought >= input.thoughtNumber) {
+      throw new Error(
+        'Cannot verify a future thought. verifiesThought must be less than current thoughtNumber.'
+      );
+    }
+    if (!findHypothesis(history, input.verifiesThought)) {
+      throw new Error(
+        `Thought ${input.verifiesThought} is not a recorded hypothesis. Tag the hypothesis with stage "hypothesis" before verifying it.`
+      );
+    }
+  }
+
+  /**
+   * Adjusts total thoughts if current thought exceeds estimate
+   */
+  private adjustTotalThoughts(input: DeepmindInput): void {
+    if (input.thoughtNumber > input.totalThoughts) {
+      input.totalThoughts = input.thoughtNumber;
+    }
+  }
+
+  /**
+   * Records a validated thought in its session's history, branches and counters
+   */
+  private recordThought(session: ReasoningSession, input: DeepmindInput): void {
+    if (input.validation) {
+      session.settings.validation = input.validation;
+    }
+    if (input.pruneBranches !== undefined) {
+      session.settings.pruneBranches = input.pruneBranches;
+    }
+    if (input.contextWindow !== undefined) {
+      session.settings.contextWindow = input.contextWindow;
+    }
+
+    session.thoughtHistory.push(input);
+    session.counters.thoughts++;
+    session.bytes += thoughtBytes(input);
+    if (input.isRevision) {
+      session.counters.revisions++;
+    }
+
+    if (input.branchFromThought && input.branchId) {
+      if (!session.branches[input.branchId]) {
+        session.branches[input.branchId] = [];
+      }
+      session.branches[input.branchId].push(input);
+      session.counters.branchThoughts++;
+      registerBranchThought(session, input);
+      recordBranchConfidence(session.branchRecords[input.branchId], input);
+    }
+  }
+
+  /**
+   * Registers a listener called after each accepted thought. Returns an unsubscribe function.
+   */
+  public onThoughtRecorded(listener: ThoughtListener): () => void {
+    this.thoughtListeners.push(listener);
+    return () => {
+      this.thoughtListeners = this.thoughtListeners.filter((entry) => entry !== listener);
+    };
+  }
+
+  /**
+   * Notifies listeners of an accepted thought. Listener failures never fail the tool call.
+   */
+  private emitThoughtRecorded(event: ThoughtRecordedEvent): void {
+    for (const listener of this.thoughtListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.log.warning('Thought listener failed', { error: describeError(error) });
+      }
+    }
+  }
+
+  /**
+   * Registers a listener called after a rollback, restore, branch change or conclusion. Returns
+   * an unsubscribe function.
+   */
+  public onSessionChanged(listener: SessionChangeListener): () => void {
+    this.sessionListeners.push(listener);
+    return () => {
+      this.sessionListeners = this.sessionListeners.filter((entry) => entry !== listener);
+    };
+  }
+
+  /**
+   * Notifies listeners of a changed session. Listener failures never fail the tool call.
+   */
+  private emitSessionChanged(event: SessionChangedEvent): void {
+    for (const listener of this.sessionListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.log.warning('Session listener failed', { error: describeError(error) });
+      }
+    }
+  }
+
+  /**
+   * Registers a listener called each time a tool call is refused. Returns an unsubscribe
+   * function.
+   */
+  public onValidationFailure(listener: ValidationFailureListener): () => void {
+    this.failureListeners.push(listener);
+    return () => {
+      this.failureListeners = this.failureListeners.filter((entry) => entry !== listener);
+    };
+  }
+
+  /**
+   * Classifies a refused call and notifies listeners. Listener failures are ignored.
+   */
+  private emitValidationFailure(error: unknown): void {
+    const reason: ValidationFailureReason =
+      error instanceof z.ZodError
+        ? 'schema'
+        : error instanceof IntegrityError
+          ? 'integrity'
+          : error instanceof BudgetExceededError
+            ? 'budget'
+            : error instanceof LoopDetectedError
+              ? 'loop'
+              : error instanceof CompletionBlockedError
+                ? 'completion'
+                : 'rejected';
+    for (const listener of this.failureListeners) {
+      try {
+        listener(reason);
+      } catch {
+        // Monitoring must never fail the tool call
+      }
+    }
+  }
+
+  /**
+   * Saves a finished session to long-term memory. Failures are logged rather than failing
+   * the call that finished the session.
+   */
+  private remember(entry: Omit<MemoryEntry, 'rememberedAt'>): void {
+    try {
+      this.memory?.remember(entry);
+    } catch (error) {
+      this.log.warning('Could not save session to memory', {
+        sessionId: entry.sessionId,
+        error: describeError(error),
+      });
+    }
+  }
+
+  /**
+   * Builds the JSON body describing an error, with the details specific to its type
+   */
+  private errorPayload(error: unknown): {
+    error: string;
+    status: 'failed';
+    [detail: string]: unknown;
+  } {
+    if (error instanceof LoopDetectedError) {
+      return { error: error.message, warnings: error.warnings, status: 'failed' };
+    }
+
+    if (error instanceof CompletionBlockedError) {
+      return { error: error.message, outstanding: error.outstanding, status: 'failed' };
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return {
+        error: error.message,
+        budget: {
+          resource: error.resource,
+          scope: error.scope,
+          limit: error.limit,
+          requested: error.requested,
+        },
+        status: 'failed',
+      };
+    }
+
+    if (error instanceof IntegrityError) {
+      return { error: error.message, issues: error.issues, status: 'failed' };
+    }
+
+    const errorMessage =
+      error instanceof z.ZodError
+        ? `Validation error: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+    return { error: errorMessage, status: 'failed' };
+  }
+
+  /**
+   * Builds the failed-status tool result for an error
+   */
+  private errorResult(error: unknown): ToolResult {
+    this.emitValidationFailure(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(this.errorPayload(error), null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Runs every check a thought must pass before it is recorded against the given session
+   * state, without changing it. Returns the analyzer warnings and outstanding completion items.
+   */
+  private checkThought(
+    input: DeepmindInput,
+    existingSession: ReasoningSession | undefined,
+    sessions: ReasoningSession[]
+  ): ThoughtCheck {
+    this.validateRevision(input);
+    this.validateBranching(input);
+    this.validateStage(input, existingSession?.thoughtHistory ?? []);
+    validateBranchThought(existingSession, input);
+    assertAcyclic(existingSession?.thoughtHistory ?? [], input);
+    const validationMode =
+      input.validation ?? existingSession?.settings.validation ?? this.defaultValidation;
+    if (validationMode === 'strict') {
+      assertReferentialIntegrity(
+        input,
+        existingSession?.thoughtHistory ?? [],
+        existingSession?.branches ?? {},
+        existingSession?.branchRecords ?? {}
+      );
+    } else {
+      assertDependenciesRecorded(input, existingSession?.thoughtHistory ?? []);
+    }
+    this.adjustTotalThoughts(input);
+
+    // Look for loops, stagnation and contradictions
+    const history = existingSession?.thoughtHistory ?? [];
+    const warnings = analyzeThought(history, input);
+    if (
+      this.loopThreshold !== undefined &&
+      warnings.some(isBlocking) &&
+      countFlaggedStreak(history, this.loopThreshold) >= this.loopThreshold
+    ) {
+      throw new LoopDetectedError(warnings, this.loopThreshold);
+    }
+    assertWithinBudget(this.budgets, input, existingSession, sessions);
+
+    // Check completion gates before accepting a finish
+    const outstanding =
+      !input.nextThoughtNeeded && this.completionGates.length > 0
+        ? evaluateCompletion(
+            this.completionGates,
+            history,
+            existingSession?.branchRecords ?? {},
+            input
+          )
+        : [];
+    if (outstanding.length > 0 && this.completionMode === 'reject') {
+      throw new CompletionBlockedError(outstanding);
+    }
+
+    return { warnings, outstanding };
+  }
+
+  /**
+   * Stores a checked thought in its session, notifies listeners and builds the response
+   */
+  private commitThought(input: DeepmindInput, check: ThoughtCheck): ThoughtResponse {
+    const { warnings, outstanding } = check;
+
+    // Store in the session's history
+    const isNewSession = !this.findSession(input.sessionId);
+    const session = this.getSession(input.sessionId);
+    // The first record carries the session's start time so replays keep it
+    this.journal?.append(
+      session.id,
+      'thought',
+      input,
+      isNewSession ? new Date(session.createdAt) : undefined
+    );
+    this.recordThought(session, input);
+    this.emitThoughtRecorded({
+      sessionId: session.id,
+      thought: input,
+      index: session.thoughtHistory.length - 1,
+      isNewSession,
+    });
+
+    // Log thought if not disabled; text logs show it in the configured style
+    if (!this.disableThoughtLogging) {
+      this.log.log(
+        'info',
+        `Recorded thought ${input.thoughtNumber}/${input.totalThoughts}`,
+        {
+          sessionId: session.id,
+          thoughtNumber: input.thoughtNumber,
+          branchId: input.branchId,
+          isRevision: input.isRevision,
+          revisesThought: input.revisesThought,
+          stage: input.stage,
+        },
+        renderThought(input, this.thoughtStyle, {
+          width: this.thoughtWidth ?? process.stderr.columns ?? DEFAULT_THOUGHT_WIDTH,
+          color: process.stderr.isTTY === true,
+          depth: thoughtDepth(session.thoughtHistory, input),
+        })
+      );
+    }
+
+    if (!input.nextThoughtNeeded && this.memory) {
+      this.remember(memoryFromFinalThought(session, input));
+    }
+
+    // Prepare response
+    const response: ThoughtResponse = {
+      sessionId: session.id,
+      thoughtNumber: input.thoughtNumber,
+      totalThoughts: input.totalThoughts,
+      nextThoughtNeeded: input.nextThoughtNeeded,
+      branches: summarizeBranches(session, session.settings.pruneBranches),
+      thoughtHistoryLength: session.thoughtHistory.length,
+    };
+
+    // Add optional fields if present
+    if (input.isRevision) {
+      response.isRevision = input.isRevision;
+      response.revisesThought = input.revisesThought;
+    }
+    if (input.branchId) {
+      response.branchId = input.branchId;
+      response.branchFromThought = input.branchFromThought;
+      response.parentBranchId = session.branchRecords[input.branchId]?.parentBranchId;
+    }
+    if (input.needsMoreThoughts !== undefined) {
+      response.needsMoreThoughts = input.needsMoreThoughts;
+    }
+    if (input.stage) {
+      response.stage = input.stage;
+    }
+    if (input.verifiesThought !== undefined) {
+      response.verifiesThought = input.verifiesThought;
+      response.verdict = input.verdict;
+    }
+    if (input.confidence !== undefined) {
+      response.confidence = input.confidence;
+    }
+    if (input.evidence) {
+      response.evidence = input.evidence;
+    }
+    if (input.dependsOn) {
+      response.dependsOn = input.dependsOn;
+    }
+
+    if (session.thoughtHistory.some((thought) => thought.stage === 'hypothesis')) {
+      response.unverifiedHypotheses = summarizeHypotheses(session.thoughtHistory).unverified;
+    }
+    const staleThoughts = findStaleThoughts(session.thoughtHistory);
+    if (staleThoughts.length > 0) {
+      response.staleThoughts = staleThoughts;
+    }
+    if (warnings.length > 0) {
+      response.warnings = warnings;
+    }
+    if (outstanding.length > 0) {
+      response.outstanding = outstanding;
+    }
+    if (hasBudgets(this.budgets)) {
+      response.budget = remainingBudget(this.budgets, session, this.sessions.list());
+    }
+    const contextWindow = session.settings.contextWindow ?? this.defaultContextWindow;
+    if (contextWindow) {
+      response.context = buildRollingSummary(session, input, contextWindow);
+    }
+
+    return response;
+  }
+
+  /**
+   * Processes a thought input and returns formatted response
+   */
+  public processThought(input: unknown): ToolResult {
+    try {
+      // Validate input with Zod schema
+      const validatedInput = DeepmindSchema.parse(input);
+      const check = this.checkThought(
+        validatedInput,
+        this.findSession(validatedInput.sessionId),
+        this.sessions.list()
+      );
+      const response = this.commitThought(validatedInput, check);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Processes several thoughts in order as one unit. Every thought is checked against the
+   * state left by the ones before it on scratch copies of their sessions; only when all pass
+   * are they recorded, so either the whole batch is stored or none of it is.
+   */
+  public processBatch(input: unknown): ToolResult {
+    try {
+      const { thoughts } = DeepmindBatchSchema.parse(input);
+      const scratch = new Map<string, ReasoningSession>();
+      const checked: Array<{ input: DeepmindInput; check: ThoughtCheck }> = [];
+
+      for (const [index, item] of thoughts.entries()) {
+        try {
+          const validatedInput = DeepmindSchema.parse(item);
+          const sessionId = validatedInput.sessionId ?? DEFAULT_SESSION_ID;
+          let session = scratch.get(sessionId);
+          if (!session) {
+            const live = this.findSession(sessionId);
+            session = live ? structuredClone(live) : createSession(sessionId, Date.now());
+            scratch.set(sessionId, session);
+          }
+          const existing =
+            session.thoughtHistory.length > 0 || this.sessions.has(sessionId) ? session : undefined;
+          const sessions = [
+            ...this.sessions.list().filter((live) => !scratch.has(live.id)),
+            ...scratch.values(),
+          ];
+          const check = this.checkThought(validatedInput, existing, sessions);
+          this.recordThought(session, validatedInput);
+          checked.push({ input: validatedInput, check });
+        } catch (error) {
+          throw new BatchItemError(index, error);
+        }
+      }
+
+      const results = checked.map(({ input: thought, check }) =>
+        this.commitThought(thought, check)
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ accepted: results.length, results }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (!(error instanceof BatchItemError)) {
+        return this.errorResult(error);
+      }
+
+      const items = (input as { thoughts: unknown[] }).thoughts;
+      const thoughtNumberOf = (item: unknown): unknown =>
+        (item as { thoughtNumber?: unknown } | null)?.thoughtNumber;
+      const failure = this.errorPayload(error.reason);
+      this.emitValidationFailure(error.reason);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: `Batch rejected at item ${error.index}: ${failure.error} No thoughts were stored.`,
+                status: 'failed',
+                failedIndex: error.index,
+                results: items.map((item, index) =>
+                  index < error.index
+                    ? { index, thoughtNumber: thoughtNumberOf(item), status: 'valid' }
+                    : index === error.index
+                      ? { index, thoughtNumber: thoughtNumberOf(item), ...failure }
+                      : { index, thoughtNumber: thoughtNumberOf(item), status: 'unchecked' }
+                ),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Exports a session as Markdown, JSON or a Mermaid flowchart
+   */
+  public exportSession(input: unknown): ToolResult {
+    try {
+      const validatedInput = ExportSchema.parse(input);
+      const session = this.findSession(validatedInput.sessionId);
+      if (!session) {
+        throw new Error(`Unknown session: ${validatedInput.sessionId ?? DEFAULT_SESSION_ID}`);
+      }
+
+      const text = renderSession(
+        {
+          sessionId: session.id,
+          thoughtHistory: this.getThoughtHistory(session.id),
+          branches: this.getBranches(session.id),
+          conclusion: session.conclusion,
+        },
+        validatedInput.format
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Resolves the effective chain of a session's mainline or of one branch
+   */
+  public resolveChain(input: unknown): ToolResult {
+    try {
+      const validatedInput = ChainSchema.parse(input);
+      const session = this.findSession(validatedInput.sessionId);
+      if (!session) {
+        throw new Error(`Unknown session: ${validatedInput.sessionId ?? DEFAULT_SESSION_ID}`);
+      }
+
+      const chain = this.getEffectiveChain(session.id, validatedInput.branchId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ sessionId: session.id, ...chain }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Searches a session's thoughts by keyword and filters, returning one page of snippets
+   */
+  public queryHistory(input: unknown): ToolResult {
+    try {
+      const validatedInput = QuerySchema.parse(input);
+      const session = this.findSession(validatedInput.sessionId);
+      if (!session) {
+        throw new Error(`Unknown session: ${validatedInput.sessionId ?? DEFAULT_SESSION_ID}`);
+      }
+
+      const page = queryThoughts(session.thoughtHistory, validatedInput);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { sessionId: session.id, query: validatedInput.query, ...page },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Lists or ranks a session's branches, or changes a branch's status or merges it into its
+   * parent
+   */
+  public manageBranch(input: unknown): ToolResult {
+    try {
+      const validatedInput = BranchToolSchema.parse(input);
+      const session = this.findSession(validatedInput.sessionId);
+      if (!session) {
+        throw new Error(`Unknown session: ${validatedInput.sessionId ?? DEFAULT_SESSION_ID}`);
+      }
+
+      if (validatedInput.action === 'update' || validatedInput.action === 'merge') {
+        const event = planBranchEvent(session, validatedInput);
+        this.journal?.append(session.id, 'branch', event);
+        applyBranchEvent(session, event);
+        this.emitSessionChanged({ sessionId: session.id, change: 'branch' });
+      }
+
+      const result =
+        validatedInput.action === 'rank'
+          ? { sessionId: session.id, ranking: rankBranches(session) }
+          : { sessionId: session.id, branches: summarizeBranches(session) };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Lists or creates checkpoints, rolls a session back to a checkpoint or thought, or
+   * restores the suffix a rollback archived
+   */
+  public manageCheckpoint(input: unknown): ToolResult {
+    try {
+      const validatedInput = CheckpointToolSchema.parse(input);
+      const session = this.findSession(validatedInput.sessionId);
+      if (!session) {
+        throw new Error(`Unknown session: ${validatedInput.sessionId ?? DEFAULT_SESSION_ID}`);
+      }
+
+      const event =
+        validatedInput.action === 'create'
+          ? planCheckpoint(session, validatedInput.name)
+          : validatedInput.action === 'rollback'
+            ? planRollback(session, validatedInput)
+            : validatedInput.action === 'restore'
+              ? planRestore(session, validatedInput.archiveId)
+              : undefined;
+      if (event) {
+        this.journal?.append(session.id, 'checkpoint', event);
+        applyCheckpointEvent(session, event, (thought) => this.recordThought(session, thought));
+        if (event.action !== 'create') {
+          this.emitSessionChanged({ sessionId: session.id, change: event.action });
+        }
+      }
+
+      const response = {
+        sessionId: session.id,
+        ...(event?.action === 'rollback' ? { archiveId: event.archiveId } : {}),
+        thoughtHistoryLength: session.thoughtHistory.length,
+        lastThoughtNumber: session.thoughtHistory[session.thoughtHistory.length - 1]?.thoughtNumber,
+        checkpoints: Object.values(session.checkpoints),
+        archives: session.archives.map(
+          ({ archiveId, target, fromLength, thoughts, createdAt }) => ({
+            archiveId,
+            target,
+            fromLength,
+            thoughtCount: thoughts.length,
+            thoughtNumbers: thoughts.map((thought) => thought.thoughtNumber),
+            createdAt,
+          })
+        ),
+        branches: summarizeBranches(session, session.settings.pruneBranches),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Records a session's final answer with the thoughts it rests on, the branches that were
+   * rejected and an outline of the path taken. Concluding again replaces the earlier record.
+   */
+  public conclude(input: unknown): ToolResult {
+    try {
+      const validatedInput = ConcludeSchema.parse(input);
+      const session = this.findSession(validatedInput.sessionId);
+      if (!session) {
+        throw new Error(`Unknown session: ${validatedInput.sessionId ?? DEFAULT_SESSION_ID}`);
+      }
+
+      const conclusion = buildConclusion(session, validatedInput);
+      this.journal?.append(session.id, 'conclusion', conclusion);
+      session.conclusion = conclusion;
+      if (this.memory) {
+        this.remember(memoryFromConclusion(session, conclusion));
+      }
+      this.emitSessionChanged({ sessionId: session.id, change: 'conclusion' });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ sessionId: session.id, ...conclusion }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Finds conclusions of earlier sessions in this project that are relevant to a query
+   */
+  public recall(input: unknown): ToolResult {
+    try {
+      const validatedInput = RecallSchema.parse(input);
+      if (!this.memory) {
+        throw new Error('Long-term memory is disabled. Set DEEPMIND_MEMORY_DIR to enable it.');
+      }
+
+      const results = this.memory.recall(validatedInput);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ query: validatedInput.query, results }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Gets the conclusion recorded for a session, if any
+   */
+  public getConclusion(sessionId: string = DEFAULT_SESSION_ID): ConclusionRecord | undefined {
+    return this.peekSession(sessionId)?.conclusion;
+  }
+
+  /**
+   * Gets the effective chain of a session with revisions applied
+   */
+  public getEffectiveChain(
+    sessionId: string = DEFAULT_SESSION_ID,
+    branchId?: string
+  ): EffectiveChain {
+    return resolveEffectiveChain(this.getThoughtHistory(sessionId), branchId);
+  }
+
+  /**
+   * Gets the current thought history of a session
+   */
+  public getThoughtHistory(sessionId: string = DEFAULT_SESSION_ID): DeepmindInput[] {
+    return [...(this.peekSession(sessionId)?.thoughtHistory ?? [])];
+  }
+
+  /**
+   * Gets the current branches of a session
+   */
+  public getBranches(sessionId: string = DEFAULT_SESSION_ID): Record<string, DeepmindInput[]> {
+    return { ...(this.peekSession(sessionId)?.branches ?? {}) };
+  }
+
+  /**
+   * Gets a summary of a session, or undefined if it does not exist
+   */
+  public getSessionInfo(sessionId: string = DEFAULT_SESSION_ID): SessionInfo | undefined {
+    const session = this.peekSession(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    return {
+      sessionId: session.id,
+      thoughtHistoryLength: session.thoughtHistory.length,
+      branches: summarizeBranches(session, session.settings.pruneBranches),
+      counters: { ...session.counters },
+      concludedAt: session.conclusion?.concludedAt,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastAccessedAt: new Date(session.lastAccessedAt).toISOString(),
+    };
+  }
+
+  /**
+   * Totals across live sessions
+   */
+  public getStats(): ServerStats {
+    const stats: ServerStats = { sessions: 0, thoughts: 0, revisions: 0, branches: 0 };
+    for (const session of this.sessions.list()) {
+      stats.sessions++;
+      stats.thoughts += session.thoughtHistory.length;
+      stats.revisions += session.counters.revisions;
+      stats.branches += Object.keys(session.branchRecords).length;
+    }
+    return stats;
+  }
+
+  /**
+   * Lists the ids of live sessions
+   */
+  public getSessionIds(): string[] {
+    return this.sessions.list().map((session) => session.id);
+  }
+
+  /**
+   * Clears the thought history and branches of one session, or of every session when no id is given
+   */
+  public clearHistory(sessionId?: string): void {
+    if (sessionId === undefined) {
+      this.sessions.clear();
+      this.journal?.removeAll();
+    } else {
+      this.sessions.delete(sessionId);
+      this.journal?.remove(sessionId);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import type { DeepmindInput } from './deepmind-server';
+
+/**
+ * Maps each thought number to the thought numbers it declares a dependency on
+ */
+function dependencyEdges(history: DeepmindInput[]): Map<number, Set<number>> {
+  const edges = new Map<number, Set<number>>();
+  for (const thought of history) {
+    for (const dependency of thought.dependsOn ?? []) {
+      const targets = edges.get(thought.thoughtNumber) ?? new Set<number>();
+      targets.add(dependency);
+      edges.set(thought.thoughtNumber, targets);
+    }
+  }
+  return edges;
+}
+
+/**
+ * Finds a path of dependencies leading from one thought number to another, or undefined
+ */
+function findPath(
+  edges: Map<number, Set<number>>,
+  from: number,
+  to: number,
+  visited: Set<number> = new Set()
+): number[] | undefined {
+  if (from === to) {
+    return [to];
+  }
+  visited.add(from);
+  for (const next of edges.get(from) ?? []) {
+    if (visited.has(next)) {
+      continue;
+    }
+    const rest = findPath(edges, next, to, visited);
+    if (rest) {
+      return [from, ...rest];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Throws if the thought's dependencies would close a cycle in the dependency graph
+ */
+export function assertAcyclic(history: DeepmindInput[], input: DeepmindInput): void {
+  const edges = dependencyEdges(history);
+  for (const dependency of input.dependsOn ?? []) {
+    const path = findPath(edges, dependency, input.thoughtNumber);
+    if (path) {
+      throw new Error(
+        path.length === 1
+          ? `Thought ${input.thoughtNumber} cannot depend on itself.`
+          : `dependsOn ${dependency} would create a dependency cycle: ${[input.thoughtNumber, ...path].join(' → ')}.`
+      );
+    }
+  }
+}
+
+/**
+ * Replays the history to find thoughts whose premises changed: revising a thought marks
+ * every thought that depends on it, directly or indirectly, as stale until it is revised
+ * in turn. Returns the stale thought numbers in ascending order.
+ */
+export function findStaleThoughts(history: DeepmindInput[]): number[] {
+  const dependents = new Map<number, Set<number>>();
+  const superseded = new Set<number>();
+  const stale = new Set<number>();
+
+  for (const thought of history) {
+    if (thought.isRevision && thought.revisesThought !== undefined) {
+      superseded.add(thought.revisesThought);
+      stale.delete(thought.revisesThought);
+
+      const queue = [...(dependents.get(thought.revisesThought) ?? [])];
+      const seen = new Set<number>([thought.revisesThought, thought.thoughtNumber]);
+      for (let index = 0; index < queue.length; index++) {
+        const current = queue[index];
+        if (seen.has(current)) {
+          continue;
+        }
+        seen.add(current);
+        if (!superseded.has(current)) {
+          stale.add(current);
+        }
+        queue.push(...(dependents.get(current) ?? []));
+      }
+    }
+
+    for (const dependency of thought.dependsOn ?? []) {
+      const list = dependents.get(dependency) ?? new Set<number>();
+      list.add(thought.thoughtNumber);
+      dependents.set(dependency, list);
+    }
+  }
+
+  return [...stale].sort((a, b) => a - b);
+}
@@ -0,0 +1,285 @@
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import type { ConclusionRecord } from './conclusion';
+import { SessionIdSchema } from './session-store';
+
+/**
+ * Zod schema for validating darbot_deepmind_export tool inputs
+ */
+export const ExportSchema = z.object({
+  sessionId: SessionIdSchema.optional().describe('Reasoning session to export'),
+  format: z
+    .enum(['markdown', 'json', 'mermaid'])
+    .optional()
+    .default('markdown')
+    .describe('Output format (markdown, json, or mermaid)'),
+});
+
+export type ExportInput = z.infer<typeof ExportSchema>;
+export type ExportFormat = ExportInput['format'];
+
+/**
+ * Session state handed to the exporters
+ */
+export interface SessionSnapshot {
+  sessionId: string;
+  thoughtHistory: DeepmindInput[];
+  branches: Record<string, DeepmindInput[]>;
+  conclusion?: ConclusionRecord;
+}
+
+/**
+ * A thought with the revisions and branches that hang off it
+ */
+interface ThoughtNode {
+  index: number;
+  thought: DeepmindInput;
+  revisions: ThoughtNode[];
+  branches: BranchGroup[];
+}
+
+interface BranchGroup {
+  branchId: string;
+  branchFromThought: number;
+  nodes: ThoughtNode[];
+}
+
+interface ThoughtTree {
+  roots: ThoughtNode[];
+  /** Branches whose fork point was never recorded */
+  orphanBranches: BranchGroup[];
+}
+
+const isBranchThought = (thought: DeepmindInput): boolean =>
+  thought.branchFromThought !== undefined && thought.branchId !== undefined;
+
+/**
+ * Arranges the flat history into a tree: revisions nest under the thought they revise and
+ * branches nest under the thought they fork from, looked up in the parent branch for nested
+ * branches. Revisions whose target was never recorded stay at the top level.
+ */
+function buildTree(snapshot: SessionSnapshot): ThoughtTree {
+  const tree: ThoughtTree = { roots: [], orphanBranches: [] };
+  const byNumber = new Map<number, ThoughtNode>();
+  const branchGroups = new Map<string, BranchGroup>();
+  /** First node recorded under each thought number, per branch */
+  const byBranchNumber = new Map<string, Map<number, ThoughtNode>>();
+
+  snapshot.thoughtHistory.forEach((thought, index) => {
+    const node: ThoughtNode = { index, thought, revisions: [], branches: [] };
+
+    if (isBranchThought(thought)) {
+      const branchId = thought.branchId as string;
+      let group = branchGroups.get(branchId);
+      if (!group) {
+        group = { branchId, branchFromThought: thought.branchFromThought as number, nodes: [] };
+        branchGroups.set(branchId, group);
+        const forkPoint =
+          (thought.parentBranchId !== undefined
+            ? byBranchNumber.get(thought.parentBranchId)?.get(group.branchFromThought)
+            : undefined) ?? byNumber.get(group.branchFromThought);
+        (forkPoint ? forkPoint.branches : tree.orphanBranches).push(group);
+      }
+      group.nodes.push(node);
+      const laneNodes = byBranchNumber.get(branchId) ?? new Map<number, ThoughtNode>();
+      if (!laneNodes.has(thought.thoughtNumber)) {
+        laneNodes.set(thought.thoughtNumber, node);
+      }
+      byBranchNumber.set(branchId, laneNodes);
+    } else if (thought.isRevision && thought.revisesThought !== undefined) {
+      const target = byNumber.get(thought.revisesThought);
+      (target ? target.revisions : tree.roots).push(node);
+    } else {
+      tree.roots.push(node);
+    }
+
+    if (!byNumber.has(thought.thoughtNumber)) {
+      byNumber.set(thought.thoughtNumber, node);
+    }
+  });
+
+  return tree;
+}
+
+/**
+ * Renders a session as a readable Markdown report
+ */
+export function renderMarkdown(snapshot: SessionSnapshot): string {
+  const { thoughtHistory, branches } = snapshot;
+  const branchIds = Object.keys(branches);
+  const revisionCount = thoughtHistory.filter((thought) => thought.isRevision).length;
+  const lines: string[] = [
+    `# Reasoning session \`${snapshot.sessionId}\``,
+    '',
+    `- Thoughts: ${thoughtHistory.length}`,
+    `- Revisions: ${revisionCount}`,
+    `- Branches: ${branchIds.length > 0 ? branchIds.map((id) => `\`${id}\``).join(', ') : 'none'}`,
+    '',
+    '## Thoughts',
+    '',
+  ];
+
+  const describe = (thought: DeepmindInput): string => {
+    const label = thought.isRevision
+      ? `Revision ${thought.thoughtNumber}/${thought.totalThoughts} (revises ${thought.revisesThought})`
+      : `Thought ${thought.thoughtNumber}/${thought.totalThoughts}`;
+    const confidence =
+      thought.confidence !== undefined ? ` _(confidence ${thought.confidence})_` : '';
+    return `**${label}**: ${thought.thought.replace(/\s*\n\s*/g, ' ')}${confidence}`;
+  };
+
+  const renderNodes = (nodes: ThoughtNode[], depth: number): void => {
+    const indent = '  '.repeat(depth);
+    for (const node of nodes) {
+      lines.push(`${indent}- ${describe(node.thought)}`);
+      renderNodes(node.revisions, depth + 1);
+      for (const branch of node.branches) {
+        lines.push(`${indent}  - Branch \`${branch.branchId}\``);
+        renderNodes(branch.nodes, depth + 2);
+      }
+    }
+  };
+
+  const tree = buildTree(snapshot);
+  renderNodes(tree.roots, 0);
+  for (const branch of tree.orphanBranches) {
+    lines.push(
+      `- Branch \`${branch.branchId}\` (from unrecorded thought ${branch.branchFromThought})`
+    );
+    renderNodes(branch.nodes, 1);
+  }
+
+  if (thoughtHistory.length === 0) {
+    lines.push('_No thoughts recorded._');
+  }
+
+  const { conclusion } = snapshot;
+  if (conclusion) {
+    lines.push(
+      '',
+      '## Conclusion',
+      '',
+      conclusion.answer.replace(/\s*\n\s*/g, ' '),
+      '',
+      `- Supported by: ${conclusion.supportingThoughts.map((n) => `thought ${n}`).join(', ')}`,
+      `- Path: ${conclusion.branchId !== undefined ? `branch \`${conclusion.branchId}\`` : 'mainline'}`
+    );
+    for (const rejected of conclusion.rejectedBranches) {
+      const rationale = rejected.rationale !== undefined ? `: ${rejected.rationale}` : '';
+      lines.push(`- Rejected branch \`${rejected.branchId}\` (${rejected.status})${rationale}`);
+    }
+    lines.push('', '### Outline', '');
+    conclusion.outline.forEach((step, index) => {
+      const stage = step.stage !== undefined ? ` _[${step.stage}]_` : '';
+      lines.push(`${index + 1}. Thought ${step.thoughtNumber}${stage}: ${step.summary}`);
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders a session as a machine-readable JSON dump
+ */
+export function renderJson(snapshot: SessionSnapshot): string {
+  return JSON.stringify(
+    {
+      sessionId: snapshot.sessionId,
+      exportedAt: new Date().toISOString(),
+      thoughtHistory: snapshot.thoughtHistory,
+      branches: snapshot.branches,
+      conclusion: snapshot.conclusion,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Escapes and shortens text for use inside a quoted Mermaid node label
+ */
+function mermaidLabel(text: string, maxLength = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const short = flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat;
+  return short.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+/**
+ * Renders a session as a Mermaid flowchart with sequence, revision and branch edges. A
+ * nested branch forks from its thought in the parent branch, as in the Markdown tree.
+ */
+export function renderMermaid(snapshot: SessionSnapshot): string {
+  const lines: string[] = ['flowchart TD'];
+  const edges: string[] = [];
+  const firstByNumber = new Map<number, string>();
+  /** First node recorded under each thought number, per branch */
+  const firstByBranchNumber = new Map<string, Map<number, string>>();
+  const lastInBranch = new Map<string, string>();
+  let lastMainline: string | undefined;
+
+  snapshot.thoughtHistory.forEach((thought, index) => {
+    const id = `t${index}`;
+    lines.push(`  ${id}["${thought.thoughtNumber}: ${mermaidLabel(thought.thought)}"]`);
+
+    if (isBranchThought(thought)) {
+      const branchId = thought.branchId as string;
+      const previous = lastInBranch.get(branchId);
+      if (previous) {
+        edges.push(`  ${previous} --> ${id}`);
+      } else {
+        const branchFromThought = thought.branchFromThought as number;
+        const forkPoint =
+          (thought.parentBranchId !== undefined
+            ? firstByBranchNumber.get(thought.parentBranchId)?.get(branchFromThought)
+            : undefined) ?? firstByNumber.get(branchFromThought);
+        if (forkPoint) {
+          edges.push(`  ${forkPoint} -- "branch ${mermaidLabel(branchId)}" --> ${id}`);
+        }
+      }
+      lastInBranch.set(branchId, id);
+      const laneIds = firstByBranchNumber.get(branchId) ?? new Map<number, string>();
+      if (!laneIds.has(thought.thoughtNumber)) {
+        laneIds.set(thought.thoughtNumber, id);
+      }
+      firstByBranchNumber.set(branchId, laneIds);
+      lines.push(`  class ${id} branch`);
+    } else {
+      if (lastMainline) {
+        edges.push(`  ${lastMainline} --> ${id}`);
+      }
+      lastMainline = id;
+    }
+
+    if (thought.isRevision && thought.revisesThought !== undefined) {
+      const target = firstByNumber.get(thought.revisesThought);
+      if (target) {
+        edges.push(`  ${id} -. revises .-> ${target}`);
+      }
+      lines.push(`  class ${id} revision`);
+    }
+
+    if (!firstByNumber.has(thought.thoughtNumber)) {
+      firstByNumber.set(thought.thoughtNumber, id);
+    }
+  });
+
+  lines.push(...edges);
+  lines.push('  classDef revision stroke:#d97706,stroke-dasharray:4 2');
+  lines.push('  classDef branch stroke:#16a34a');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders a session in the requested format
+ */
+export function renderSession(snapshot: SessionSnapshot, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return renderJson(snapshot);
+    case 'mermaid':
+      return renderMermaid(snapshot);
+    case 'markdown':
+      return renderMarkdown(snapshot);
+  }
+}
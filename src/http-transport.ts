@@ -0,0 +1,402 @@
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Transports the server can be reached over
+ */
+export const TRANSPORTS = ['stdio', 'http'] as const;
+
+export type TransportKind = (typeof TRANSPORTS)[number];
+
+/** Streamable HTTP endpoint */
+export const MCP_PATH = '/mcp';
+/** Legacy HTTP+SSE endpoints, kept for clients that predate Streamable HTTP */
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MINUTES = 30;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const commaList = z.string().transform((value) =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+);
+
+/**
+ * Zod schema for the transport and admin listener settings taken from flags and the
+ * environment
+ */
+export const TransportOptionsSchema = z.object({
+  transport: z.enum(TRANSPORTS).default('stdio'),
+  host: z.string().min(1).default('127.0.0.1'),
+  port: z.coerce.number().int().min(0).max(65535).default(3000),
+  allowedHosts: commaList.optional(),
+  allowedOrigins: commaList.optional(),
+  adminHost: z.string().min(1).default('127.0.0.1'),
+  /** The admin listener is off unless a port is given */
+  adminPort: z.coerce.number().int().min(0).max(65535).optional(),
+  /** Minutes a Streamable HTTP session may sit idle before it is closed (0 keeps it open) */
+  sessionIdleMinutes: z.coerce.number().int().min(0).optional(),
+});
+
+export type TransportOptions = z.infer<typeof TransportOptionsSchema>;
+
+const TRANSPORT_FLAGS: Record<string, keyof TransportOptions> = {
+  '--transport': 'transport',
+  '--host': 'host',
+  '--port': 'port',
+  '--allowed-hosts': 'allowedHosts',
+  '--allowed-origins': 'allowedOrigins',
+  '--admin-host': 'adminHost',
+  '--admin-port': 'adminPort',
+  '--session-idle-minutes': 'sessionIdleMinutes',
+};
+
+const TRANSPORT_ENV: Record<string, keyof TransportOptions> = {
+  MCP_TRANSPORT: 'transport',
+  MCP_HOST: 'host',
+  MCP_PORT: 'port',
+  MCP_ALLOWED_HOSTS: 'allowedHosts',
+  MCP_ALLOWED_ORIGINS: 'allowedOrigins',
+  MCP_ADMIN_HOST: 'adminHost',
+  MCP_ADMIN_PORT: 'adminPort',
+  MCP_SESSION_IDLE_MINUTES: 'sessionIdleMinutes',
+};
+
+/**
+ * Resolves the transport settings. Command-line flags (`--port 8080` or `--port=8080`)
+ * take precedence over environment variables.
+ */
+export function parseTransportOptions(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const raw: Partial<Record<keyof TransportOptions, string>> = {};
+
+  for (const [name, key] of Object.entries(TRANSPORT_ENV)) {
+    const value = env[name];
+    if (value !== undefined && value.trim() !== '') {
+      raw[key] = value.trim();
+    }
+  }
+
+  for (let index = 0; index < argv.length; index++) {
+    const [flag, inline] = argv[index].split(/=(.*)/s, 2);
+    const key = TRANSPORT_FLAGS[flag];
+    if (!key) {
+      continue;
+    }
+    const value = inline ?? argv[++index];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    raw[key] = value;
+  }
+
+  return TransportOptionsSchema.parse(raw);
+}
+
+/**
+ * Host names a request may address. Binding to a specific interface allows that name
+ * alongside loopback; binding to a wildcard address allows only loopback unless
+ * allowedHosts names the public host.
+ */
+function allowedHostNames(options: TransportOptions): Set<string> {
+  const names = new Set(LOOPBACK_HOSTS);
+  if (!WILDCARD_HOSTS.includes(options.host)) {
+    names.add(hostName(options.host));
+  }
+  for (const host of options.allowedHosts ?? []) {
+    names.add(hostName(host));
+  }
+  return names;
+}
+
+/**
+ * Normalizes a Host header or host setting to a lower-case name without its port
+ */
+function hostName(host: string): string {
+  const bare =
+    host.includes(':') && !host.startsWith('[') && host.indexOf(':') !== host.lastIndexOf(':')
+      ? `[${host}]`
+      : host;
+  try {
+    return new URL(`http://${bare}`).hostname.toLowerCase();
+  } catch {
+    return bare.toLowerCase();
+  }
+}
+
+/**
+ * Guards against DNS rebinding: the Host header must name an allowed host, and a browser
+ * Origin, when sent, must be listed in allowedOrigins or point at an allowed host
+ */
+export function checkRequestOrigin(
+  headers: http.IncomingHttpHeaders,
+  options: TransportOptions
+): string | undefined {
+  const hosts = allowedHostNames(options);
+  const host = headers.host;
+  if (!host || !hosts.has(hostName(host))) {
+    return `Host not allowed: ${host ?? '(missing)'}`;
+  }
+
+  const origin = headers.origin;
+  if (origin === undefined || options.allowedOrigins?.includes(origin)) {
+    return undefined;
+  }
+  try {
+    if (hosts.has(new URL(origin).hostname.toLowerCase())) {
+      return undefined;
+    }
+  } catch {
+    // Fall through to the rejection below
+  }
+  return `Origin not allowed: ${origin}`;
+}
+
+/**
+ * A running HTTP listener
+ */
+export interface HttpServerHandle {
+  /** Base URL the listener is reachable on */
+  url: string;
+  /** Number of open MCP sessions across both HTTP transports */
+  sessionCount(): number;
+  /** Closes every MCP session, then stops the listener */
+  close(): Promise<void>;
+}
+
+/**
+ * Requests a Streamable HTTP session has in flight, and when the last one ended
+ */
+interface SessionActivity {
+  openRequests: number;
+  lastSeen: number;
+}
+
+/**
+ * Writes a JSON-RPC error response that is not tied to a request id
+ */
+function sendError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Reads and parses a JSON request body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp, with the legacy HTTP+SSE transport at /sse and
+ * /messages. Every client session gets its own Server from createServer, so sessions
+ * keep independent protocol state while sharing whatever the factory closes over.
+ * Streamable HTTP sessions with no open request for sessionIdleMinutes are closed, since
+ * a client that vanishes without a DELETE would otherwise hold its Server forever.
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: TransportOptions,
+  now: () => number = Date.now
+): Promise<HttpServerHandle> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  const servers = new Map<Transport, Server>();
+  const activity = new Map<StreamableHTTPServerTransport, SessionActivity>();
+  const idleMs = (options.sessionIdleMinutes ?? DEFAULT_SESSION_IDLE_MINUTES) * 60 * 1000;
+
+  const connect = async (transport: Transport, onClose: () => void): Promise<Server> => {
+    const server = createServer();
+    transport.onclose = (): void => {
+      onClose();
+      servers.delete(transport);
+    };
+    servers.set(transport, server);
+    await server.connect(transport);
+    return server;
+  };
+
+  /**
+   * Counts a request against its session until the response closes, so that a
+   * long-lived SSE stream keeps the session alive
+   */
+  const track = (transport: StreamableHTTPServerTransport, res: http.ServerResponse): void => {
+    const entry = activity.get(transport) ?? { openRequests: 0, lastSeen: now() };
+    activity.set(transport, entry);
+    entry.openRequests++;
+    res.once('close', () => {
+      entry.openRequests--;
+      entry.lastSeen = now();
+    });
+  };
+
+  const closeIdleSessions = (): void => {
+    if (idleMs <= 0) {
+      return;
+    }
+    const cutoff = now() - idleMs;
+    for (const [transport, entry] of activity) {
+      if (entry.openRequests === 0 && entry.lastSeen < cutoff) {
+        activity.delete(transport);
+        servers
+          .get(transport)
+          ?.close()
+          .catch(() => undefined);
+      }
+    }
+  };
+
+  const handleStreamable = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> => {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const transport = streamable.get(sessionId);
+      if (!transport) {
+        sendError(res, 404, ErrorCode.ConnectionClosed, `Unknown MCP session: ${sessionId}`);
+        return;
+      }
+      track(transport, res);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: randomUUID,
+      onsessioninitialized: (id): void => {
+        streamable.set(id, transport);
+      },
+    });
+    const server = await connect(transport, () => {
+      activity.delete(transport);
+      if (transport.sessionId) {
+        streamable.delete(transport.sessionId);
+      }
+    });
+    track(transport, res);
+    await transport.handleRequest(req, res, body);
+    if (!transport.sessionId) {
+      // The transport refused the initialize request, so no client can reach this server
+      await server.close();
+    }
+  };
+
+  const handleSseStream = async (res: http.ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sse.set(transport.sessionId, transport);
+    await connect(transport, () => sse.delete(transport.sessionId));
+  };
+
+  const handleSseMessage = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const transport = sse.get(sessionId);
+    if (!transport) {
+      sendError(res, 404, ErrorCode.ConnectionClosed, `Unknown MCP session: ${sessionId}`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const route = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    closeIdleSessions();
+    const rejection = checkRequestOrigin(req.headers, options);
+    if (rejection) {
+      sendError(res, 403, ErrorCode.InvalidRequest, rejection);
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === MCP_PATH) {
+      await handleStreamable(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await handleSseStream(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await handleSseMessage(req, res, url);
+    } else {
+      sendError(res, 404, ErrorCode.MethodNotFound, `Not found: ${req.method} ${url.pathname}`);
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    route(req, res).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = error instanceof SyntaxError ? 400 : 500;
+      sendError(
+        res,
+        status,
+        status === 400 ? ErrorCode.ParseError : ErrorCode.InternalError,
+        message
+      );
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep =
+    idleMs > 0
+      ? setInterval(closeIdleSessions, Math.min(idleMs, MAX_SWEEP_INTERVAL_MS))
+      : undefined;
+  sweep?.unref();
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    sessionCount: () => servers.size,
+    close: async (): Promise<void> => {
+      clearInterval(sweep);
+      await Promise.allSettled([...servers.values()].map((server) => server.close()));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -5,44 +5,53 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
   Tool,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import chalk from 'chalk';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { DarbotDeepmindServer, ToolResult } from './deepmind-server';
+import { DeepmindResourceProvider } from './resources';
+import { getPrompt, listPrompts } from './prompts';
+import {
+  MCP_PATH,
+  SSE_PATH,
+  parseTransportOptions,
+  startHttpServer,
+} from './http-transport';
+import { DeepmindMetrics } from './metrics';
+import { startAdminServer } from './admin';
+import {
+  describeError,
+  getLogger,
+  isClientRecord,
+  isLevelEnabled,
+  logging,
+  LogLevel,
+  readLogOptions,
+} from './logger';
+import { DEFAULT_SESSION_ID } from './session-store';
+import {
+  AUTH_MODES,
+  AUTH_OUTPUTS,
+  AuthDefaults,
+  ConfigManager,
+  configureTools,
+  readAuthDefaults,
+} from './config';
 
 const execAsync = promisify(exec);
 
-/**
- * Zod schema for validating darbot_deepmind tool inputs
- */
-const DeepmindSchema = z.object({
-  thought: z.string().min(1).describe('The current thinking step'),
-  nextThoughtNeeded: z.boolean().describe('Whether another thought step is needed'),
-  thoughtNumber: z.number().int().positive().describe('Current thought number'),
-  totalThoughts: z.number().int().positive().describe('Estimated total thoughts needed'),
-  isRevision: z.boolean().optional().describe('Whether this revises previous thinking'),
-  revisesThought: z
-    .number()
-    .int()
-    .positive()
-    .optional()
-    .describe('Which thought is being reconsidered'),
-  branchFromThought: z
-    .number()
-    .int()
-    .positive()
-    .optional()
-    .describe('Branching point thought number'),
-  branchId: z.string().optional().describe('Branch identifier'),
-  needsMoreThoughts: z.boolean().optional().describe('If more thoughts are needed'),
-});
-
-type DeepmindInput = z.infer<typeof DeepmindSchema>;
-
 /**
  * Zod schema for validating microsoft_auth tool inputs
  */
@@ -55,7 +64,7 @@ const MicrosoftAuthSchema = z.object({
   resourceId: z.string().min(1).describe('Resource ID to authenticate to').optional(),
   tenantId: z.string().min(1).describe('Azure AD tenant ID').optional(),
   output: z
-    .enum(['token', 'json', 'status'])
+    .enum(AUTH_OUTPUTS)
     .optional()
     .default('json')
     .describe('Output format (token, json, or status)'),
@@ -65,7 +74,7 @@ const MicrosoftAuthSchema = z.object({
     .optional()
     .describe('Timeout in minutes (default: 15, minimum: 1)'),
   mode: z
-    .enum(['interactive', 'device-code', 'silent'])
+    .enum(AUTH_MODES)
     .optional()
     .default('interactive')
     .describe('Authentication mode'),
@@ -82,230 +91,40 @@ interface MicrosoftAuthResponse {
   expirationDate?: string;
 }
 
-interface ThoughtResponse {
-  thoughtNumber: number;
-  totalThoughts: number;
-  nextThoughtNeeded: boolean;
-  branches: string[];
-  thoughtHistoryLength: number;
-  isRevision?: boolean;
-  revisesThought?: number;
-  branchId?: string;
-  branchFromThought?: number;
-  needsMoreThoughts?: boolean;
-}
-
 /**
- * Darbot Deepmind Server class implementing sophisticated reasoning capabilities
+ * Microsoft Authentication Server class for Azure AD authentication
  */
-class DarbotDeepmindServer {
-  private thoughtHistory: DeepmindInput[] = [];
-  private branches: Record<string, DeepmindInput[]> = {};
-  private disableThoughtLogging: boolean;
-
-  constructor() {
-    this.disableThoughtLogging = process.env.DISABLE_THOUGHT_LOGGING?.toLowerCase() === 'true';
-  }
-
-  /**
-   * Formats a thought for beautiful console output
-   */
-  private formatThought(thoughtData: DeepmindInput): string {
-    const {
-      thoughtNumber,
-      totalThoughts,
-      thought,
-      isRevision,
-      revisesThought,
-      branchFromThought,
-      branchId,
-    } = thoughtData;
-
-    let prefix: string;
-    let context: string;
-
-    if (isRevision) {
-      prefix = chalk.yellow('🧠 Revision');
-      context = ` (revising thought ${revisesThought})`;
-    } else if (branchFromThought) {
-      prefix = chalk.green('🚀 Branch');
-      context = ` (from thought ${branchFromThought}, ID: ${branchId})`;
-    } else {
-      prefix = chalk.blue('⚡ Thought');
-      context = '';
-    }
-
-    const header = `${prefix} ${thoughtNumber}/${totalThoughts}${context}`;
-    // eslint-disable-next-line no-control-regex
-    const borderLength = Math.max(header.replace(/\x1b\[[0-9;]*m/g, '').length, thought.length) + 4;
-    const border = '─'.repeat(borderLength);
-
-    return `
-┌${border}┐
-│ ${header.padEnd(borderLength - 2)} │
-├${border}┤
-│ ${thought.padEnd(borderLength - 2)} │
-└${border}┘`;
-  }
+class MicrosoftAuthServer {
+  private readonly log = getLogger('auth');
 
-  /**
-   * Validates thought revision logic
-   */
-  private validateRevision(input: DeepmindInput): void {
-    if (input.isRevision && input.revisesThought !== undefined) {
-      if (input.revisesThought >= input.thoughtNumber) {
-        throw new Error(
-          'Cannot revise a future thought. revisesThought must be less than current thoughtNumber.'
-        );
-      }
-      if (input.revisesThought < 1) {
-        throw new Error('revisesThought must be a positive number.');
-      }
-    }
-  }
+  constructor(
+    private readonly metrics: DeepmindMetrics,
+    private defaults: AuthDefaults = {}
+  ) {}
 
   /**
-   * Validates thought branching logic
+   * Replaces the defaults used for arguments a call leaves out
    */
-  private validateBranching(input: DeepmindInput): void {
-    if (input.branchFromThought !== undefined) {
-      if (input.branchFromThought >= input.thoughtNumber) {
-        throw new Error(
-          'Cannot branch from a future thought. branchFromThought must be less than current thoughtNumber.'
-        );
-      }
-      if (!input.branchId) {
-        throw new Error('branchId is required when branchFromThought is specified.');
-      }
-    }
+  public configure(defaults: AuthDefaults): void {
+    this.defaults = defaults;
   }
 
   /**
-   * Adjusts total thoughts if current thought exceeds estimate
+   * Fills in configured defaults. The default account (alias or client, resource and
+   * tenant) is only used when the call names no account itself.
    */
-  private adjustTotalThoughts(input: DeepmindInput): void {
-    if (input.thoughtNumber > input.totalThoughts) {
-      input.totalThoughts = input.thoughtNumber;
-    }
-  }
-
-  /**
-   * Processes a thought input and returns formatted response
-   */
-  public processThought(input: unknown): {
-    content: Array<{ type: string; text: string }>;
-    isError?: boolean;
-  } {
-    try {
-      // Validate input with Zod schema
-      const validatedInput = DeepmindSchema.parse(input);
-
-      // Additional validation
-      this.validateRevision(validatedInput);
-      this.validateBranching(validatedInput);
-      this.adjustTotalThoughts(validatedInput);
-
-      // Store in history
-      this.thoughtHistory.push(validatedInput);
-
-      // Handle branching
-      if (validatedInput.branchFromThought && validatedInput.branchId) {
-        if (!this.branches[validatedInput.branchId]) {
-          this.branches[validatedInput.branchId] = [];
-        }
-        this.branches[validatedInput.branchId].push(validatedInput);
-      }
-
-      // Log thought if not disabled
-      if (!this.disableThoughtLogging) {
-        const formattedThought = this.formatThought(validatedInput);
-        console.error(formattedThought);
-      }
-
-      // Prepare response
-      const response: ThoughtResponse = {
-        thoughtNumber: validatedInput.thoughtNumber,
-        totalThoughts: validatedInput.totalThoughts,
-        nextThoughtNeeded: validatedInput.nextThoughtNeeded,
-        branches: Object.keys(this.branches),
-        thoughtHistoryLength: this.thoughtHistory.length,
-      };
-
-      // Add optional fields if present
-      if (validatedInput.isRevision) {
-        response.isRevision = validatedInput.isRevision;
-        response.revisesThought = validatedInput.revisesThought;
-      }
-      if (validatedInput.branchId) {
-        response.branchId = validatedInput.branchId;
-        response.branchFromThought = validatedInput.branchFromThought;
-      }
-      if (validatedInput.needsMoreThoughts !== undefined) {
-        response.needsMoreThoughts = validatedInput.needsMoreThoughts;
-      }
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      const errorMessage =
-        error instanceof z.ZodError
-          ? `Validation error: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
-          : error instanceof Error
-            ? error.message
-            : String(error);
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                error: errorMessage,
-                status: 'failed',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
+  private withDefaults(input: unknown): unknown {
+    if (input !== undefined && (typeof input !== 'object' || input === null)) {
+      return input;
     }
+    const given = (input ?? {}) as Record<string, unknown>;
+    const { mode, output, timeoutMinutes, ...account } = this.defaults;
+    const namesAccount = ['alias', 'clientId', 'resourceId', 'tenantId'].some(
+      (key) => given[key] !== undefined
+    );
+    return { mode, output, timeout: timeoutMinutes, ...(namesAccount ? {} : account), ...given };
   }
 
-  /**
-   * Gets the current thought history
-   */
-  public getThoughtHistory(): DeepmindInput[] {
-    return [...this.thoughtHistory];
-  }
-
-  /**
-   * Gets the current branches
-   */
-  public getBranches(): Record<string, DeepmindInput[]> {
-    return { ...this.branches };
-  }
-
-  /**
-   * Clears the thought history and branches
-   */
-  public clearHistory(): void {
-    this.thoughtHistory = [];
-    this.branches = {};
-  }
-}
-
-/**
- * Microsoft Authentication Server class for Azure AD authentication
- */
-class MicrosoftAuthServer {
   /**
    * Checks if azureauth CLI is installed
    */
@@ -326,7 +145,7 @@ class MicrosoftAuthServer {
   ): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
     try {
       // Validate input with Zod schema
-      const validatedInput = MicrosoftAuthSchema.parse(input);
+      const validatedInput = MicrosoftAuthSchema.parse(this.withDefaults(input));
 
       // Additional validation: ensure either alias OR direct parameters are provided
       const hasAlias = validatedInput.alias && validatedInput.alias.length > 0;
@@ -336,6 +155,7 @@ class MicrosoftAuthServer {
         validatedInput.tenantId;
 
       if (!hasAlias && !hasDirectParams) {
+        this.metrics.recordAuth('failure');
         return {
           content: [
             {
@@ -358,6 +178,7 @@ class MicrosoftAuthServer {
       // Check if azureauth is installed
       const isInstalled = await this.checkAzureAuthInstalled();
       if (!isInstalled) {
+        this.metrics.recordAuth('failure');
         return {
           content: [
             {
@@ -407,8 +228,11 @@ class MicrosoftAuthServer {
         command += ' --mode silent';
       }
 
-      console.error(chalk.blue('🔐 Microsoft Auth: Executing authentication...'));
-      console.error(chalk.gray(`Command: ${command}`));
+      this.log.info('Executing authentication', {
+        alias: validatedInput.alias,
+        mode: validatedInput.mode,
+      });
+      this.log.debug('azureauth command', { command });
 
       // Execute the azureauth command
       const { stdout, stderr } = await execAsync(command, {
@@ -416,7 +240,7 @@ class MicrosoftAuthServer {
       });
 
       if (stderr) {
-        console.error(chalk.yellow('⚠️  Microsoft Auth: Warning - '), stderr);
+        this.log.warning('azureauth reported a warning', { stderr: stderr.trim() });
       }
 
       // Parse response based on output format
@@ -433,11 +257,12 @@ class MicrosoftAuthServer {
           response.token = parsed.token;
           response.expirationDate = parsed.expiration_date;
         } catch {
-          console.error(chalk.yellow('⚠️  Microsoft Auth: Could not parse JSON output'));
+          this.log.warning('Could not parse azureauth JSON output');
         }
       }
 
-      console.error(chalk.green('✅ Microsoft Auth: Authentication successful'));
+      this.log.info('Authentication successful');
+      this.metrics.recordAuth('success');
 
       return {
         content: [
@@ -449,19 +274,23 @@ class MicrosoftAuthServer {
       };
     } catch (error) {
       let errorMessage = 'Unknown error occurred';
+      let timedOut = false;
 
       if (error instanceof z.ZodError) {
         errorMessage = `Validation error: ${error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`;
       } else if (error instanceof Error) {
         errorMessage = error.message;
-        // Check for timeout
-        if (errorMessage.includes('timeout')) {
+        // Check for timeout; execAsync kills the child when its timeout elapses
+        timedOut =
+          errorMessage.includes('timeout') || (error as { killed?: boolean }).killed === true;
+        if (timedOut) {
           errorMessage =
             'Authentication timed out. You may need to increase the timeout value or try device code flow.';
         }
       }
 
-      console.error(chalk.red('❌ Microsoft Auth: Authentication failed - '), errorMessage);
+      this.log.error('Authentication failed', { error: errorMessage, timedOut });
+      this.metrics.recordAuth(timedOut ? 'timeout' : 'failure');
 
       return {
         content: [
@@ -528,7 +357,21 @@ Parameters explained:
 - revises_thought: If is_revision is true, which thought number is being reconsidered
 - branch_from_thought: If branching, which thought number is the branching point
 - branch_id: Identifier for the current branch (if any)
+- parent_branch_id: When forking from a thought on another branch, that branch's id (nests the new branch under it)
 - needs_more_thoughts: If reaching end but realizing more thoughts needed
+- session_id: Optional identifier that isolates this chain of thoughts from other problems or agents
+- stage: Optional reasoning stage (problem-definition, analysis, hypothesis, verification, conclusion)
+- verifies_thought: On a verification thought, the hypothesis thought number being checked
+- verdict: Outcome of a verification (confirmed, refuted, inconclusive); the response lists hypotheses still unverified
+- validation: Set to "strict" to have every revision, branch and thought number checked against the recorded session history
+- prune_branches: Hide abandoned and merged branches from the branches list in responses
+- confidence: How strongly you believe this thought, from 0 to 1; branches aggregate the scores of their thoughts
+- evidence: Facts, observations or sources that support this thought
+- depends_on: Earlier thought numbers this thought builds on. Revising one of them marks this thought (and everything built on it) stale; the response lists stale thoughts to re-check
+- context_window: Ask for a rolling summary in each response (the last N effective thoughts, open branches and unresolved hypotheses) for this and later thoughts in the session. Use it in long sessions to recover your place after your own context is compacted; 0 turns it off
+
+Responses include warnings when a thought repeats a recent one, keeps revising the same thought, keeps raising total_thoughts, or contradicts an earlier thought. Treat them as a signal to roll back, branch or conclude.
+The server may enforce completion rules when next_thought_needed is false (open branches, unverified hypotheses, a final thought that is not a conclusion, a pending request for more thoughts, or unrevised contradictions). Unmet rules come back as an outstanding list, or the finishing thought is rejected.
 
 You should:
 1. Start with an initial estimate of needed thoughts, but be ready to adjust
@@ -581,15 +424,404 @@ You should:
         type: 'string',
         description: 'Branch identifier',
       },
+      parentBranchId: {
+        type: 'string',
+        description:
+          'Branch that branchFromThought belongs to. Nests the new branch under that branch instead of the mainline',
+      },
       needsMoreThoughts: {
         type: 'boolean',
         description: 'If more thoughts are needed',
       },
+      sessionId: {
+        type: 'string',
+        description:
+          'Reasoning session identifier. Thoughts in different sessions have separate history and branches (default: "default")',
+        pattern: '^[A-Za-z0-9._-]{1,128}$',
+      },
+      stage: {
+        type: 'string',
+        enum: ['problem-definition', 'analysis', 'hypothesis', 'verification', 'conclusion'],
+        description: 'Reasoning stage this thought belongs to',
+      },
+      verifiesThought: {
+        type: 'integer',
+        description:
+          'Hypothesis thought number this verification checks (implies stage "verification")',
+        minimum: 1,
+      },
+      verdict: {
+        type: 'string',
+        enum: ['confirmed', 'refuted', 'inconclusive'],
+        description: 'Outcome of verifying the hypothesis (requires verifiesThought)',
+      },
+      validation: {
+        type: 'string',
+        enum: ['lenient', 'strict'],
+        description:
+          'Validation mode for this and later thoughts in the session. Strict mode checks revisions, branches and numbering against recorded history',
+      },
+      pruneBranches: {
+        type: 'boolean',
+        description:
+          'Hide abandoned and merged branches from the branches list in responses for this and later thoughts in the session',
+      },
+      confidence: {
+        type: 'number',
+        description:
+          'How strongly the thought is believed, from 0 (not at all) to 1 (certain). Aggregated per branch for ranking',
+        minimum: 0,
+        maximum: 1,
+      },
+      evidence: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Facts, observations or sources supporting the thought',
+      },
+      dependsOn: {
+        type: 'array',
+        items: { type: 'integer', minimum: 1 },
+        description:
+          'Earlier recorded thought numbers this thought builds on. Cycles are rejected; revising a dependency marks this thought stale',
+      },
+      contextWindow: {
+        type: 'integer',
+        description:
+          'Return a rolling summary with this many recent effective thoughts, plus open branches and unresolved hypotheses, for this and later thoughts in the session (0 turns it off)',
+        minimum: 0,
+        maximum: 50,
+      },
     },
     required: ['thought', 'nextThoughtNeeded', 'thoughtNumber', 'totalThoughts'],
   },
 };
 
+/**
+ * MCP Tool definition for darbot_deepmind_batch
+ */
+const DARBOT_DEEPMIND_BATCH_TOOL: Tool = {
+  name: 'darbot_deepmind_batch',
+  description: `Darbot Deepmind Batch: Record several darbot_deepmind thoughts in one call.
+
+Use this when you have already planned a sequence of steps. Each thought takes the same parameters as darbot_deepmind and is checked in order, so later thoughts can revise, branch from or depend on earlier ones in the same batch.
+
+The batch is atomic: if any thought fails a check, none are stored. The response has one result per thought; on failure it names the failing item and its error, marks earlier items as valid and later ones as unchecked.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      thoughts: {
+        type: 'array',
+        items: DARBOT_DEEPMIND_TOOL.inputSchema,
+        minItems: 1,
+        description: 'Thoughts to record, in order',
+      },
+    },
+    required: ['thoughts'],
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_export
+ */
+const DARBOT_DEEPMIND_EXPORT_TOOL: Tool = {
+  name: 'darbot_deepmind_export',
+  description: `Darbot Deepmind Export: Render a recorded reasoning session for use outside the conversation.
+
+Formats:
+- markdown: Readable report with revisions nested under the thoughts they revise and branches nested under their fork point (default)
+- json: Full machine-readable dump of the session's thought history and branches
+- mermaid: Flowchart of the chain with sequence, revision and branch edges, ready to paste into Markdown that renders Mermaid`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session to export (default: "default")',
+      },
+      format: {
+        type: 'string',
+        enum: ['markdown', 'json', 'mermaid'],
+        description: 'Output format (default: markdown)',
+        default: 'markdown',
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_chain
+ */
+const DARBOT_DEEPMIND_CHAIN_TOOL: Tool = {
+  name: 'darbot_deepmind_chain',
+  description: `Darbot Deepmind Chain: Resolve what a reasoning session currently believes.
+Returns the effective chain of thoughts for the mainline or a branch, with every revised thought replaced by its latest revision.
+
+Each entry carries its revision lineage (original thought number through each revision), and the response lists the superseded thought numbers.
+Use it before giving a final answer so you only cite thoughts that are still valid.
+
+A branch view includes the mainline up to the branch's fork point, followed by the branch's own thoughts.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session to resolve (default: "default")',
+      },
+      branchId: {
+        type: 'string',
+        description: 'Branch to resolve (default: the mainline)',
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_query
+ */
+const DARBOT_DEEPMIND_QUERY_TOOL: Tool = {
+  name: 'darbot_deepmind_query',
+  description: `Darbot Deepmind Query: Search the thought history of a reasoning session.
+
+Use this to find earlier reasoning in a long session, for example where a decision was made, every revision, or the thoughts on one branch after a given thought number.
+
+- query: Keywords, ranked by relevance (BM25). Without a query, matches come back in the order they were recorded
+- branchId, isRevision, stage, fromThought, toThought: Filters, combined with AND
+- limit and offset: Pagination; the response gives total and nextOffset
+
+Each result is a compact snippet with the thought number, branch, stage and revision details, not the full thought. Read the full thought through the deepmind://sessions/{sessionId}/thoughts/{n} resource if needed.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session to search (default: "default")',
+      },
+      query: {
+        type: 'string',
+        description: 'Keywords to search for',
+      },
+      branchId: {
+        type: 'string',
+        description: 'Only thoughts on this branch',
+      },
+      isRevision: {
+        type: 'boolean',
+        description: 'Only revisions (true) or only thoughts that are not revisions (false)',
+      },
+      stage: {
+        type: 'string',
+        enum: ['problem-definition', 'analysis', 'hypothesis', 'verification', 'conclusion'],
+        description: 'Only thoughts in this stage',
+      },
+      fromThought: {
+        type: 'integer',
+        description: 'Lowest thought number to include',
+        minimum: 1,
+      },
+      toThought: {
+        type: 'integer',
+        description: 'Highest thought number to include',
+        minimum: 1,
+      },
+      limit: {
+        type: 'integer',
+        description: 'Results per page (default: 10)',
+        minimum: 1,
+        maximum: 50,
+      },
+      offset: {
+        type: 'integer',
+        description: 'Results to skip (default: 0)',
+        minimum: 0,
+      },
+    },
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_branch
+ */
+const DARBOT_DEEPMIND_BRANCH_TOOL: Tool = {
+  name: 'darbot_deepmind_branch',
+  description: `Darbot Deepmind Branch: Manage the lifecycle of branches in a reasoning session.
+
+Actions:
+- list: Show every branch with its parent branch, fork point, status, rationale, thought count and confidence aggregates
+- rank: Order the open branches by the confidence of their latest scored thought, then by depth (thought count), to pick the most promising path
+- update: Set a branch's status to open, abandoned or selected, with an optional rationale. Abandoned branches accept no new thoughts until reopened
+- merge: Fold a branch back into its parent (the mainline, or the parent branch of a nested branch), recording which of its thoughts holds the adopted conclusion. Merged branches are closed for good
+
+Every action except rank returns the session's branches after the change.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'rank', 'update', 'merge'],
+        description: 'What to do',
+      },
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session the branch belongs to (default: "default")',
+      },
+      branchId: {
+        type: 'string',
+        description: 'Branch to update or merge',
+      },
+      status: {
+        type: 'string',
+        enum: ['open', 'abandoned', 'selected'],
+        description: 'New branch status (update only)',
+      },
+      rationale: {
+        type: 'string',
+        description: 'Why the status changed or the conclusion was adopted',
+      },
+      conclusionThought: {
+        type: 'integer',
+        description:
+          'Branch thought whose conclusion is adopted (merge only, defaults to the last thought of the branch)',
+        minimum: 1,
+      },
+    },
+    required: ['action'],
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_checkpoint
+ */
+const DARBOT_DEEPMIND_CHECKPOINT_TOOL: Tool = {
+  name: 'darbot_deepmind_checkpoint',
+  description: `Darbot Deepmind Checkpoint: Save named positions in a reasoning session and roll back to them.
+
+Actions:
+- list: Show the session's checkpoints and the archives left by earlier rollbacks
+- create: Name the current position in the session (the last recorded thought)
+- rollback: Discard every thought recorded after a checkpoint, or after a thought number on the mainline or a branch. Branches that lose all their thoughts are removed. The discarded thoughts are archived, and the response returns the archive id
+- restore: Undo a rollback by re-recording its archived thoughts, branches and checkpoints. Only possible while no thoughts have been added since the rollback
+
+Use rollback instead of piling on revisions when a line of reasoning has gone wrong.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'create', 'rollback', 'restore'],
+        description: 'What to do',
+      },
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session to act on (default: "default")',
+      },
+      name: {
+        type: 'string',
+        description: 'Checkpoint name (create only)',
+        pattern: '^[A-Za-z0-9._-]{1,64}$',
+      },
+      checkpoint: {
+        type: 'string',
+        description: 'Checkpoint to roll back to (rollback only, instead of toThought)',
+      },
+      toThought: {
+        type: 'integer',
+        description:
+          'Thought number to roll back to, keeping that thought (rollback only, instead of checkpoint)',
+        minimum: 1,
+      },
+      branchId: {
+        type: 'string',
+        description: 'Branch toThought belongs to (default: the mainline)',
+      },
+      archiveId: {
+        type: 'string',
+        description: 'Archive to restore, as returned by rollback (restore only)',
+      },
+    },
+    required: ['action'],
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_conclude
+ */
+const DARBOT_DEEPMIND_CONCLUDE_TOOL: Tool = {
+  name: 'darbot_deepmind_conclude',
+  description: `Darbot Deepmind Conclude: Record the final answer of a reasoning session.
+
+The conclusion stores:
+- The answer itself
+- The thought numbers it rests on. Each must have been recorded and must not have been superseded by a revision
+- The branches considered and rejected (by default, every abandoned branch)
+- An outline of the path taken, generated from the effective chain of the selected branch or the mainline
+
+Concluding again replaces the earlier record. The conclusion is journaled, included in exports and readable as the deepmind://sessions/{sessionId}/conclusion resource.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Reasoning session to conclude (default: "default")',
+      },
+      answer: {
+        type: 'string',
+        description: 'The final answer',
+      },
+      supportingThoughts: {
+        type: 'array',
+        items: { type: 'integer', minimum: 1 },
+        minItems: 1,
+        description: 'Thought numbers the answer rests on',
+      },
+      branchId: {
+        type: 'string',
+        description:
+          'Branch holding the line of reasoning that was followed (default: the selected branch, or the mainline)',
+      },
+      rejectedBranches: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Branches considered and rejected (default: the abandoned branches)',
+      },
+    },
+    required: ['answer', 'supportingThoughts'],
+  },
+};
+
+/**
+ * MCP Tool definition for darbot_deepmind_recall
+ */
+const DARBOT_DEEPMIND_RECALL_TOOL: Tool = {
+  name: 'darbot_deepmind_recall',
+  description: `Darbot Deepmind Recall: Find conclusions from earlier reasoning sessions in this project.
+
+When a session is concluded with darbot_deepmind_conclude, or finishes with next_thought_needed set to false, its answer and key insights (supporting thoughts, confirmed hypotheses, conclusion-stage thoughts) are saved to a local long-term memory scoped to the project directory.
+
+Call this at the start of a problem to check whether a similar one was solved before. Results are ranked by keyword relevance and link back to their source sessions. Requires the server to be started with DEEPMIND_MEMORY_DIR.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Describe the problem to find related past conclusions',
+      },
+      limit: {
+        type: 'integer',
+        description: 'Maximum memories to return (default: 5)',
+        minimum: 1,
+        maximum: 20,
+      },
+      excludeSessionId: {
+        type: 'string',
+        description: 'Leave out memories from this session, usually the current one',
+      },
+    },
+    required: ['query'],
+  },
+};
+
 /**
  * MCP Tool definition for microsoft_auth
  */
@@ -670,56 +902,333 @@ Note: The azureauth CLI must be installed separately. Installation instructions:
 };
 
 /**
- * Main server setup and initialization
+ * Every tool the server offers
  */
-async function main(): Promise<void> {
-  try {
-    const server = new Server(
-      {
-        name: 'darbot-deepmind-server',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
+const TOOLS: Tool[] = [
+  DARBOT_DEEPMIND_TOOL,
+  DARBOT_DEEPMIND_BATCH_TOOL,
+  DARBOT_DEEPMIND_EXPORT_TOOL,
+  DARBOT_DEEPMIND_CHAIN_TOOL,
+  DARBOT_DEEPMIND_QUERY_TOOL,
+  DARBOT_DEEPMIND_BRANCH_TOOL,
+  DARBOT_DEEPMIND_CHECKPOINT_TOOL,
+  DARBOT_DEEPMIND_CONCLUDE_TOOL,
+  DARBOT_DEEPMIND_RECALL_TOOL,
+  MICROSOFT_AUTH_TOOL,
+];
 
-    const thinkingServer = new DarbotDeepmindServer();
-    const authServer = new MicrosoftAuthServer();
+/**
+ * Metric label for a tool name; names of tools the server does not offer share one label
+ * so clients cannot grow the metric without bound
+ */
+function toolLabel(name: string): string {
+  return TOOLS.some((tool) => tool.name === name) ? name : 'unknown';
+}
 
-    // Handle list tools request
-    server.setRequestHandler(ListToolsRequestSchema, () => ({
-      tools: [DARBOT_DEEPMIND_TOOL, MICROSOFT_AUTH_TOOL],
-    }));
+/**
+ * Sessions a tool call works on: the session it names or the default one, and for a batch
+ * the session of each thought. Recall and sign-in are not about a session.
+ */
+function sessionsOfCall(name: string, args: Record<string, unknown> | undefined): string[] {
+  if (name === 'darbot_deepmind_recall' || name === 'microsoft_auth') {
+    return [];
+  }
+  const items: unknown[] =
+    name === 'darbot_deepmind_batch' && Array.isArray(args?.thoughts) ? args.thoughts : [args];
+  return items.map((item) => {
+    const sessionId = (item as { sessionId?: unknown } | undefined)?.sessionId;
+    return typeof sessionId === 'string' ? sessionId : DEFAULT_SESSION_ID;
+  });
+}
+
+/**
+ * Creates an MCP protocol server backed by the shared reasoning and auth servers. Each
+ * connection (the stdio pipe, or one HTTP session) gets its own instance so resource
+ * subscriptions stay per client.
+ */
+function createMcpServer(
+  thinkingServer: DarbotDeepmindServer,
+  authServer: MicrosoftAuthServer,
+  metrics: DeepmindMetrics,
+  config: ConfigManager
+): Server {
+  const server = new Server(
+    {
+      name: 'darbot-deepmind-server',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {
+          listChanged: true,
+        },
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+
+  const resourceProvider = new DeepmindResourceProvider(thinkingServer);
+  // Sessions this client's tool calls named, which decide the log records it receives
+  const clientSessions = new Set<string>();
+
+  // Handle list tools request, with the tools and descriptions the config file sets
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: configureTools(TOOLS, config.config),
+  }));
+
+  // Handle call tool request, timing each call for /metrics
+  server.setRequestHandler(CallToolRequestSchema, (request) =>
+    metrics.observeToolCall(toolLabel(request.params.name), async (): Promise<ToolResult> => {
+      const enabled = configureTools(TOOLS, config.config);
+      if (!enabled.some((tool) => tool.name === request.params.name)) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+      }
+      for (const sessionId of sessionsOfCall(request.params.name, request.params.arguments)) {
+        clientSessions.add(sessionId);
+      }
 
-    // Handle call tool request
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       if (request.params.name === 'darbot_deepmind') {
         return thinkingServer.processThought(request.params.arguments);
       }
 
+      if (request.params.name === 'darbot_deepmind_batch') {
+        return thinkingServer.processBatch(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_export') {
+        return thinkingServer.exportSession(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_chain') {
+        return thinkingServer.resolveChain(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_query') {
+        return thinkingServer.queryHistory(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_branch') {
+        return thinkingServer.manageBranch(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_checkpoint') {
+        return thinkingServer.manageCheckpoint(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_conclude') {
+        return thinkingServer.conclude(request.params.arguments);
+      }
+
+      if (request.params.name === 'darbot_deepmind_recall') {
+        return thinkingServer.recall(request.params.arguments);
+      }
+
       if (request.params.name === 'microsoft_auth') {
         return authServer.authenticate(request.params.arguments);
       }
 
       throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+    })
+  );
+
+  // Handle resource requests
+  server.setRequestHandler(ListResourcesRequestSchema, () => ({
+    resources: resourceProvider.listResources(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: resourceProvider.listResourceTemplates(),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => ({
+    contents: [resourceProvider.readResource(request.params.uri)],
+  }));
+
+  server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    resourceProvider.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    resourceProvider.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Handle prompt requests
+  server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: listPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, (request) =>
+    getPrompt(request.params.name, request.params.arguments)
+  );
+
+  // Push resource change notifications as thoughts are recorded
+  const stopListening = thinkingServer.onThoughtRecorded((event) => {
+    for (const uri of resourceProvider.changedResources(event)) {
+      void server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+    if (event.isNewSession) {
+      void server.sendResourceListChanged().catch(() => undefined);
+    }
+  });
+  // Rollbacks, restores and conclusions can add or remove a session's conclusion resource
+  const stopWatchingSessions = thinkingServer.onSessionChanged((event) => {
+    for (const uri of resourceProvider.changedSessionResources(event)) {
+      void server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+    if (event.change !== 'branch') {
+      void server.sendResourceListChanged().catch(() => undefined);
+    }
+  });
+
+  // Forward log records as notifications/message at or above the level this client chose,
+  // limited to the sessions its tool calls named
+  let clientLevel: LogLevel = 'warning';
+  server.setRequestHandler(SetLevelRequestSchema, (request) => {
+    clientLevel = request.params.level;
+    return {};
+  });
+  const stopLogging = logging.addSink((record) => {
+    if (isLevelEnabled(record.level, clientLevel) && isClientRecord(record, clientSessions)) {
+      void server
+        .sendLoggingMessage(
+          {
+            level: record.level,
+            logger: record.component,
+            data: { message: record.message, ...record.data },
+          },
+          server.transport?.sessionId
+        )
+        .catch(() => undefined);
+    }
+  });
+
+  // Tell the client to list tools again when a reload enables, disables or re-describes one
+  const stopConfig = config.onChange((change) => {
+    if (change.applied.some((setting) => setting.startsWith('tools.'))) {
+      void server.sendToolListChanged().catch(() => undefined);
+    }
+  });
+
+  server.onclose = (): void => {
+    stopListening();
+    stopWatchingSessions();
+    stopLogging();
+    stopConfig();
+  };
+
+  return server;
+}
+
+/**
+ * Main server setup and initialization
+ */
+async function main(): Promise<void> {
+  const log = getLogger('server');
+  try {
+    const argv = process.argv.slice(2);
+    const config = new ConfigManager(argv);
+    const { env } = config.config;
+    logging.configure(readLogOptions(env));
+    if (config.config.file) {
+      log.info('Loaded config file', { file: config.config.file });
+    }
+
+    const options = parseTransportOptions(argv, env);
+    const thinkingServer = new DarbotDeepmindServer(env);
+    const metrics = new DeepmindMetrics(thinkingServer);
+    const authServer = new MicrosoftAuthServer(metrics, readAuthDefaults(env));
+    const state = { restored: false, connected: false, shuttingDown: false };
+    const closers: Array<() => Promise<void>> = [];
+
+    // Apply safe settings from config file edits without restarting the client
+    config.onChange((change) => {
+      logging.configure(readLogOptions(change.config.env));
+      thinkingServer.configure(change.config.env);
+      authServer.configure(readAuthDefaults(change.config.env));
     });
+    const stopWatching = config.watch();
+    closers.push(() => {
+      stopWatching();
+      return Promise.resolve();
+    });
+
+    // Start the admin listener first so probes can see the restore in progress
+    if (options.adminPort !== undefined) {
+      const admin = await startAdminServer(
+        {
+          liveness: () => ({ running: !state.shuttingDown }),
+          readiness: () => ({
+            restored: state.restored,
+            connected: state.connected,
+            running: !state.shuttingDown,
+          }),
+          metrics: () => metrics.render(),
+        },
+        { host: options.adminHost, port: options.adminPort }
+      );
+      closers.push(() => admin.close());
+      log.info('Admin endpoints listening', { url: admin.url });
+    }
 
-    // Connect to transport
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    await thinkingServer.restore();
+    state.restored = true;
 
-    console.error('Darbot Deepmind MCP Server running on stdio');
+    // Close open sessions and listeners before exiting so clients see a clean disconnect
+    const shutdown = (reason: string): void => {
+      if (state.shuttingDown) {
+        return;
+      }
+      state.shuttingDown = true;
+      log.info('Shutting down', { reason });
+      Promise.all(closers.map((close) => close())).then(
+        () => process.exit(0),
+        (error: unknown) => {
+          log.error('Error during shutdown', { error: describeError(error) });
+          process.exit(1);
+        }
+      );
+    };
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+
+    if (options.transport === 'stdio') {
+      const server = createMcpServer(thinkingServer, authServer, metrics, config);
+      await server.connect(new StdioServerTransport());
+      state.connected = true;
+      // The admin listener would otherwise keep the process alive after the client leaves
+      process.stdin.once('end', () => shutdown('client disconnected'));
+      log.info('Darbot Deepmind MCP Server running on stdio');
+      return;
+    }
+
+    const listener = await startHttpServer(
+      () => createMcpServer(thinkingServer, authServer, metrics, config),
+      options
+    );
+    closers.push(() => listener.close());
+    state.connected = true;
+    metrics.addGauge('deepmind_mcp_sessions_active', 'Open MCP sessions over HTTP', () =>
+      listener.sessionCount()
+    );
+    log.info('Darbot Deepmind MCP Server listening', {
+      url: `${listener.url}${MCP_PATH}`,
+      sseUrl: `${listener.url}${SSE_PATH}`,
+    });
   } catch (error) {
-    console.error('Fatal error running server:', error);
+    log.log('critical', 'Fatal error running server', { error: describeError(error) });
     process.exit(1);
   }
 }
 
 // Start the server
-main().catch((error) => {
-  console.error('Unhandled error:', error);
+main().catch((error: unknown) => {
+  getLogger('server').log('critical', 'Unhandled error', { error: describeError(error) });
   process.exit(1);
 });
@@ -0,0 +1,164 @@
+import type { DeepmindInput } from './deepmind-server';
+import type { BranchRecord } from './branches';
+
+/**
+ * How strictly thought references are checked against the recorded history
+ */
+export const VALIDATION_MODES = ['lenient', 'strict'] as const;
+
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+/**
+ * Error raised when a thought references history that does not exist or conflicts with it
+ */
+export class IntegrityError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Referential integrity check failed: ${issues.join(' ')}`);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * Describes the line of reasoning a thought belongs to: its branch, or the mainline
+ */
+function describeLane(branchId: string | undefined): string {
+  return branchId === undefined ? 'the mainline' : `branch "${branchId}"`;
+}
+
+/**
+ * Lists the recorded thought numbers for an error message
+ */
+function describeRecorded(recorded: Set<number>): string {
+  return recorded.size > 0
+    ? `Recorded thoughts: ${[...recorded].sort((a, b) => a - b).join(', ')}.`
+    : 'No thoughts are recorded yet.';
+}
+
+/**
+ * Finds dependencies that point ahead of the thought or at a thought never recorded. A
+ * dependency on the thought itself is left to the cycle check.
+ */
+function dependencyIssues(input: DeepmindInput, history: DeepmindInput[]): string[] {
+  const recorded = new Set(history.map((thought) => thought.thoughtNumber));
+  const issues: string[] = [];
+  for (const dependency of input.dependsOn ?? []) {
+    if (dependency > input.thoughtNumber) {
+      issues.push(
+        `Cannot depend on thought ${dependency}: it comes after thought ${input.thoughtNumber}. Depend only on earlier thoughts.`
+      );
+    } else if (dependency < input.thoughtNumber && !recorded.has(dependency)) {
+      issues.push(
+        `Cannot depend on thought ${dependency}: it was never recorded. ${describeRecorded(recorded)}`
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks a thought's dependencies in every validation mode, since a dependency on a thought
+ * that does not exist yet could never go stale
+ */
+export function assertDependenciesRecorded(input: DeepmindInput, history: DeepmindInput[]): void {
+  const issues = dependencyIssues(input, history);
+  if (issues.length > 0) {
+    throw new IntegrityError(issues);
+  }
+}
+
+/**
+ * Checks every reference in a thought against the recorded history of its session and
+ * throws an IntegrityError listing all problems found
+ */
+export function assertReferentialIntegrity(
+  input: DeepmindInput,
+  history: DeepmindInput[],
+  branches: Record<string, DeepmindInput[]>,
+  branchRecords: Record<string, BranchRecord> = {}
+): void {
+  const issues: string[] = [];
+  const recorded = new Set(history.map((thought) => thought.thoughtNumber));
+  const recordedList = (): string => describeRecorded(recorded);
+
+  // Revisions
+  if (input.isRevision && input.revisesThought === undefined) {
+    issues.push(
+      'isRevision is true but revisesThought is missing; name the thought being revised.'
+    );
+  }
+  if (!input.isRevision && input.revisesThought !== undefined) {
+    issues.push(
+      `revisesThought ${input.revisesThought} is set but isRevision is not; set isRevision: true or drop revisesThought.`
+    );
+  }
+  if (input.revisesThought !== undefined && !recorded.has(input.revisesThought)) {
+    issues.push(
+      `Cannot revise thought ${input.revisesThought}: it was never recorded. ${recordedList()}`
+    );
+  }
+
+  // Branches
+  const existingBranch = input.branchId !== undefined ? branches[input.branchId] : undefined;
+  if (input.branchFromThought !== undefined && !recorded.has(input.branchFromThought)) {
+    issues.push(
+      `Cannot branch from thought ${input.branchFromThought}: it was never recorded. ${recordedList()}`
+    );
+  }
+  if (existingBranch && existingBranch.length > 0 && input.branchFromThought !== undefined) {
+    const forkPoint = existingBranch[0].branchFromThought;
+    if (forkPoint !== input.branchFromThought) {
+      issues.push(
+        `Branch "${input.branchId}" already forks from thought ${forkPoint}; use branchFromThought ${forkPoint} to continue it or choose a new branchId.`
+      );
+    }
+  }
+  if (input.parentBranchId !== undefined && input.branchFromThought !== undefined) {
+    const parentThoughts = branches[input.parentBranchId] ?? [];
+    if (
+      branchRecords[input.parentBranchId] &&
+      !parentThoughts.some((thought) => thought.thoughtNumber === input.branchFromThought)
+    ) {
+      issues.push(
+        `Cannot fork from thought ${input.branchFromThought} of branch "${input.parentBranchId}": the branch has thoughts ${parentThoughts.map((thought) => thought.thoughtNumber).join(', ')}.`
+      );
+    }
+  }
+  if (input.branchId !== undefined && input.branchFromThought === undefined) {
+    issues.push(
+      existingBranch && existingBranch.length > 0
+        ? `branchId "${input.branchId}" needs branchFromThought ${existingBranch[0].branchFromThought} to continue the branch.`
+        : `branchId "${input.branchId}" needs branchFromThought to say where the branch starts.`
+    );
+  }
+
+  // Dependencies
+  issues.push(...dependencyIssues(input, history));
+
+  // Numbering within the thought's lane
+  const lane = input.branchId;
+  const laneThoughts = history.filter((thought) => thought.branchId === lane);
+  const expected =
+    laneThoughts.length > 0
+      ? Math.max(...laneThoughts.map((thought) => thought.thoughtNumber)) + 1
+      : lane !== undefined && input.branchFromThought !== undefined
+        ? input.branchFromThought + 1
+        : 1;
+
+  if (input.thoughtNumber < expected) {
+    issues.push(
+      `Thought ${input.thoughtNumber} is already recorded on ${describeLane(lane)}; the next thought number is ${expected}.`
+    );
+  } else if (input.thoughtNumber > expected) {
+    const skipped =
+      input.thoughtNumber - 1 === expected
+        ? `thought ${expected}`
+        : `thoughts ${expected}-${input.thoughtNumber - 1}`;
+    issues.push(
+      `Thought ${input.thoughtNumber} skips ${skipped} on ${describeLane(lane)}; the next thought number is ${expected}.`
+    );
+  }
+
+  if (issues.length > 0) {
+    throw new IntegrityError(issues);
+  }
+}
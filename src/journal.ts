@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { DeepmindInput, DeepmindSchema } from './deepmind-server';
+import { BranchEvent, BranchEventSchema } from './branches';
+import { CheckpointEvent, CheckpointEventSchema } from './checkpoints';
+import { ConclusionRecord, ConclusionRecordSchema } from './conclusion';
+import { SessionIdSchema } from './session-store';
+
+/**
+ * Version written into every new journal record
+ */
+export const JOURNAL_FORMAT_VERSION = 1;
+
+/**
+ * Payload of each journal record type
+ */
+export interface JournalPayloads {
+  thought: DeepmindInput;
+  branch: BranchEvent;
+  checkpoint: CheckpointEvent;
+  conclusion: ConclusionRecord;
+}
+
+export type JournalRecordType = keyof JournalPayloads;
+
+/**
+ * A single append-only journal entry
+ */
+export type JournalRecord = {
+  [K in JournalRecordType]: { v: number; type: K; at: string; data: JournalPayloads[K] };
+}[JournalRecordType];
+
+/**
+ * Schemas used to validate each record type's payload on replay. Resolved lazily because
+ * the schemas' modules import this one.
+ */
+const PAYLOAD_SCHEMAS: { [K in JournalRecordType]: () => z.ZodType<JournalPayloads[K]> } = {
+  thought: () => DeepmindSchema,
+  branch: () => BranchEventSchema,
+  checkpoint: () => CheckpointEventSchema,
+  conclusion: () => ConclusionRecordSchema,
+};
+
+/**
+ * Result of reading one session journal
+ */
+export interface JournalReadResult {
+  records: JournalRecord[];
+  /** True when a partially written final line was dropped */
+  truncatedTail: boolean;
+}
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Upgrades a record from the keyed version to the next one. Version 0 records are bare
+ * thought objects written without an envelope.
+ */
+const MIGRATIONS: Record<number, (record: RawRecord) => RawRecord> = {
+  0: (record) => ({ v: 1, type: 'thought', at: new Date(0).toISOString(), data: record }),
+};
+
+/**
+ * Error raised when a journal cannot be read back
+ */
+export class JournalError extends Error {
+  constructor(
+    message: string,
+    public readonly file: string,
+    public readonly line?: number
+  ) {
+    super(line !== undefined ? `${file}:${line}: ${message}` : `${file}: ${message}`);
+    this.name = 'JournalError';
+  }
+}
+
+/**
+ * Brings a raw record up to the current format version
+ */
+export function migrateRecord(raw: RawRecord, file: string, line: number): JournalRecord {
+  let record = raw;
+  let version = typeof record.v === 'number' ? record.v : 0;
+
+  if (version > JOURNAL_FORMAT_VERSION) {
+    throw new JournalError(
+      `record version ${version} is newer than supported version ${JOURNAL_FORMAT_VERSION}`,
+      file,
+      line
+    );
+  }
+
+  while (version < JOURNAL_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new JournalError(`no migration from record version ${version}`, file, line);
+    }
+    record = migrate(record);
+    version = record.v as number;
+  }
+
+  const type = record.type as JournalRecordType;
+  if (!Object.prototype.hasOwnProperty.call(PAYLOAD_SCHEMAS, type)) {
+    throw new JournalError(`unknown record type "${String(record.type)}"`, file, line);
+  }
+
+  const data = PAYLOAD_SCHEMAS[type]().safeParse(record.data);
+  if (!data.success) {
+    throw new JournalError(`invalid ${type} record: ${data.error.issues[0]?.message}`, file, line);
+  }
+
+  return { v: version, type, at: String(record.at), data: data.data } as JournalRecord;
+}
+
+/**
+ * Append-only JSONL journal storing one file per reasoning session
+ */
+export class ThoughtJournal {
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  /**
+   * Path of the journal file for a session. Ids that could reach outside the journal
+   * directory are rejected.
+   */
+  public fileFor(sessionId: string): string {
+    if (!SessionIdSchema.safeParse(sessionId).success) {
+      throw new JournalError('invalid session id', `${sessionId}.jsonl`);
+    }
+    return path.join(this.directory, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Appends a record to its session journal. Writes are synchronous so records land on
+   * disk in the order they were accepted.
+   */
+  public append<K extends JournalRecordType>(
+    sessionId: string,
+    type: K,
+    data: JournalPayloads[K],
+    at: Date = new Date()
+  ): void {
+    const record = {
+      v: JOURNAL_FORMAT_VERSION,
+      type,
+      at: at.toISOString(),
+      data,
+    };
+    fs.appendFileSync(this.fileFor(sessionId), `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  /**
+   * Checks whether a journal exists for a session
+   */
+  public exists(sessionId: string): boolean {
+    return fs.existsSync(this.fileFor(sessionId));
+  }
+
+  /**
+   * Lists the sessions with a journal, least recently written first
+   */
+  public async listSessions(): Promise<string[]> {
+    const entries = await fs.promises.readdir(this.directory);
+    const journals = await Promise.all(
+      entries
+        .filter((entry) => entry.endsWith('.jsonl'))
+        .map(async (entry) => ({
+          id: entry.slice(0, -'.jsonl'.length),
+          mtime: (await fs.promises.stat(path.join(this.directory, entry))).mtimeMs,
+        }))
+    );
+    return journals.sort((a, b) => a.mtime - b.mtime).map((journal) => journal.id);
+  }
+
+  /**
+   * Reads and migrates every record of a session journal. A partially written final line
+   * left behind by a crash is dropped and trimmed from the file so later appends start on
+   * a clean line; corruption anywhere else is reported as a JournalError.
+   */
+  public read(sessionId: string): JournalReadResult {
+    const file = this.fileFor(sessionId);
+    if (!fs.existsSync(file)) {
+      return { records: [], truncatedTail: false };
+    }
+
+    const content = fs.readFileSync(file, 'utf8');
+    const lines = content.split('\n');
+    const records: JournalRecord[] = [];
+    let truncatedTail = false;
+    let offset = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const isLast = i === lines.length - 1;
+
+      if (line.trim() === '') {
+        offset += line.length + 1;
+        continue;
+      }
+
+      let raw: RawRecord;
+      try {
+        raw = JSON.parse(line) as RawRecord;
+      } catch {
+        if (isLast || lines.slice(i + 1).every((rest) => rest.trim() === '')) {
+          fs.truncateSync(file, Buffer.byteLength(content.slice(0, offset), 'utf8'));
+          truncatedTail = true;
+          break;
+        }
+        throw new JournalError('malformed JSON', file, i + 1);
+      }
+
+      records.push(migrateRecord(raw, file, i + 1));
+      offset += line.length + 1;
+    }
+
+    if (!truncatedTail && content.length > 0 && !content.endsWith('\n')) {
+      fs.appendFileSync(file, '\n', 'utf8');
+    }
+
+    return { records, truncatedTail };
+  }
+
+  /**
+   * Deletes a session journal
+   */
+  public remove(sessionId: string): void {
+    fs.rmSync(this.fileFor(sessionId), { force: true });
+  }
+
+  /**
+   * Deletes every session journal
+   */
+  public removeAll(): void {
+    for (const entry of fs.readdirSync(this.directory)) {
+      if (entry.endsWith('.jsonl')) {
+        fs.rmSync(path.join(this.directory, entry), { force: true });
+      }
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import chalk from 'chalk';
+import { LoggingLevel, LoggingLevelSchema } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Log levels, least to most severe. These are the syslog levels MCP uses for
+ * `logging/setLevel` and `notifications/message`.
+ */
+export const LOG_LEVELS = LoggingLevelSchema.options;
+
+export type LogLevel = LoggingLevel;
+
+/**
+ * Parts of the server that log under their own name
+ */
+export const LOG_COMPONENTS = ['deepmind', 'auth', 'server', 'config'] as const;
+
+export type LogComponent = (typeof LOG_COMPONENTS)[number];
+
+/**
+ * `text` for people reading stderr, `json` for one JSON object per line for log collectors
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * One log entry
+ */
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  component: LogComponent;
+  message: string;
+  /** Structured fields, kept as fields in JSON output and MCP notifications */
+  data?: Record<string, unknown>;
+  /** Pre-rendered multi-line text shown under the message in text output only */
+  detail?: string;
+}
+
+/**
+ * Receives every log record regardless of the stderr level, and filters for itself
+ */
+export type LogSink = (record: LogRecord) => void;
+
+export interface LogOptions {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+const LEVEL_ALIASES: Partial<Record<string, LogLevel>> = { warn: 'warning', fatal: 'critical' };
+
+const LEVEL_COLORS: Partial<Record<LogLevel, (text: string) => string>> = {
+  debug: (text) => chalk.blue(text),
+  notice: (text) => chalk.green(text),
+  warning: (text) => chalk.yellow(text),
+  error: (text) => chalk.red(text),
+  critical: (text) => chalk.red(text),
+  alert: (text) => chalk.red(text),
+  emergency: (text) => chalk.red(text),
+};
+
+/**
+ * Parses a log level, accepting `warn` for `warning`
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  const normalized = value?.trim().toLowerCase() ?? '';
+  const parsed = LoggingLevelSchema.safeParse(LEVEL_ALIASES[normalized] ?? normalized);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Reads the logging options from LOG_LEVEL and LOG_FORMAT, falling back to `info` and `text`
+ */
+export function readLogOptions(env: NodeJS.ProcessEnv = process.env): LogOptions {
+  const format = env.LOG_FORMAT?.trim().toLowerCase();
+  return {
+    level: parseLogLevel(env.LOG_LEVEL) ?? 'info',
+    format: format === 'json' ? 'json' : 'text',
+  };
+}
+
+/**
+ * Whether a record at `level` passes a `threshold`
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Whether a record may be sent to an MCP client as `notifications/message`. Auth and debug
+ * records stay on stderr, and a client only hears about the sessions it has worked on.
+ */
+export function isClientRecord(record: LogRecord, sessionIds: ReadonlySet<string>): boolean {
+  const sessionId = record.data?.sessionId;
+  return (
+    record.component !== 'auth' &&
+    record.level !== 'debug' &&
+    typeof sessionId === 'string' &&
+    sessionIds.has(sessionId)
+  );
+}
+
+/**
+ * Formats a record as a single JSON line
+ */
+export function formatJson(record: LogRecord): string {
+  const fixed = {
+    time: record.time,
+    level: record.level,
+    component: record.component,
+    message: record.message,
+  };
+  // Fixed keys lead the line and cannot be overwritten by fields
+  return JSON.stringify({ ...fixed, ...record.data, ...fixed });
+}
+
+/**
+ * Formats a record as human-readable text, with the level coloured when `color` is set
+ */
+export function formatText(record: LogRecord, color = false): string {
+  const label = record.level.toUpperCase().padEnd(7);
+  const level = color ? (LEVEL_COLORS[record.level]?.(label) ?? label) : label;
+  const fields =
+    record.data && Object.keys(record.data).length > 0 ? ` ${JSON.stringify(record.data)}` : '';
+  const line = `${record.time} ${level} [${record.component}] ${record.message}${fields}`;
+  return record.detail
+    ? `${line}${record.detail.startsWith('\n') ? '' : '\n'}${record.detail}`
+    : line;
+}
+
+/**
+ * Routes log records to stderr, filtered by the configured level, and to any added sinks
+ */
+export class LogManager {
+  private options: LogOptions;
+  private sinks: LogSink[] = [];
+
+  constructor(
+    options: LogOptions = readLogOptions(),
+    private readonly stream: { write(text: string): unknown; isTTY?: boolean } = process.stderr,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.options = { ...options };
+  }
+
+  public get level(): LogLevel {
+    return this.options.level;
+  }
+
+  /**
+   * Changes the stderr level and format
+   */
+  public configure(options: Partial<LogOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Returns the logger for one component
+   */
+  public logger(component: LogComponent): Logger {
+    return new Logger(this, component);
+  }
+
+  /**
+   * Adds a sink such as an MCP client connection. Returns a function that removes it.
+   */
+  public addSink(sink: LogSink): () => void {
+    this.sinks.push(sink);
+    return () => {
+      this.sinks = this.sinks.filter((entry) => entry !== sink);
+    };
+  }
+
+  /**
+   * Writes a record to stderr when it passes the level, and hands it to every sink.
+   * Sink failures never fail the caller.
+   */
+  public write(record: Omit<LogRecord, 'time'>): void {
+    const full: LogRecord = { time: this.now().toISOString(), ...record };
+
+    if (isLevelEnabled(full.level, this.options.level)) {
+      const text =
+        this.options.format === 'json'
+          ? formatJson(full)
+          : formatText(full, this.stream.isTTY === true);
+      this.stream.write(`${text}\n`);
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink(full);
+      } catch {
+        // A broken sink must not stop logging elsewhere
+      }
+    }
+  }
+}
+
+/**
+ * Logger for one component
+ */
+export class Logger {
+  constructor(
+    private readonly manager: LogManager,
+    public readonly component: LogComponent
+  ) {}
+
+  public log(
+    level: LogLevel,
+    message: string,
+    data?: Record<string, unknown>,
+    detail?: string
+  ): void {
+    this.manager.write({ level, component: this.component, message, data, detail });
+  }
+
+  public debug(message: string, data?: Record<string, unknown>): void {
+    this.log('debug', message, data);
+  }
+
+  public info(message: string, data?: Record<string, unknown>): void {
+    this.log('info', message, data);
+  }
+
+  public warning(message: string, data?: Record<string, unknown>): void {
+    this.log('warning', message, data);
+  }
+
+  public error(message: string, data?: Record<string, unknown>): void {
+    this.log('error', message, data);
+  }
+}
+
+/**
+ * The process-wide log manager, configured from LOG_LEVEL and LOG_FORMAT
+ */
+export const logging = new LogManager();
+
+/**
+ * Returns the process-wide logger for a component
+ */
+export function getLogger(component: LogComponent): Logger {
+  return logging.logger(component);
+}
+
+/**
+ * Describes an unknown thrown value for a log field
+ */
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import type { ReasoningSession } from './session-store';
+import type { ConclusionRecord } from './conclusion';
+import { summarizeHypotheses } from './stages';
+import { scoreDocuments, snippet } from './search';
+import { conclusionUri, sessionUri } from './resources';
+
+/**
+ * Zod schema for validating darbot_deepmind_recall tool inputs
+ */
+export const RecallSchema = z.object({
+  query: z.string().min(1).describe('Describe the problem to find related past conclusions'),
+  limit: z.number().int().min(1).max(20).default(5).describe('Maximum memories to return'),
+  excludeSessionId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Leave out memories from this session, usually the current one'),
+});
+
+export type RecallInput = z.infer<typeof RecallSchema>;
+
+/**
+ * Where a memory was taken from: an explicit darbot_deepmind_conclude record, or the
+ * thought that finished the session
+ */
+export const MEMORY_SOURCES = ['conclusion', 'final-thought'] as const;
+
+const MemoryEntrySchema = z.object({
+  /** Session id plus its creation time, so a reused session id starts a new memory */
+  id: z.string(),
+  sessionId: z.string(),
+  source: z.enum(MEMORY_SOURCES),
+  answer: z.string(),
+  insights: z.array(z.string()),
+  supportingThoughts: z.array(z.number().int().positive()).optional(),
+  rememberedAt: z.string(),
+});
+
+export type MemoryEntry = z.infer<typeof MemoryEntrySchema>;
+
+const MemoryFileSchema = z.object({
+  projectDir: z.string(),
+  entries: z.array(MemoryEntrySchema),
+});
+
+/**
+ * A recalled memory with its relevance and links back to the source session
+ */
+export interface RecallHit extends MemoryEntry {
+  score: number;
+  sessionUri: string;
+  /** Set for memories taken from a darbot_deepmind_conclude record */
+  conclusionUri?: string;
+}
+
+/**
+ * How long memories are kept
+ */
+export interface MemoryRetention {
+  /** Most memories kept per project; the oldest are dropped first */
+  maxEntries: number;
+  /** Memories older than this many days are dropped */
+  maxAgeDays?: number;
+}
+
+export const DEFAULT_MEMORY_RETENTION: MemoryRetention = { maxEntries: 200 };
+
+const INSIGHT_LENGTH = 200;
+
+/**
+ * Identifies a session's memory by when it started, which replays restore from the journal,
+ * so concluding again after a restart replaces the earlier memory
+ */
+function memoryId(session: ReasoningSession): string {
+  return `${session.id}@${new Date(session.createdAt).toISOString()}`;
+}
+
+/**
+ * Builds a memory from a darbot_deepmind_conclude record
+ */
+export function memoryFromConclusion(
+  session: ReasoningSession,
+  conclusion: ConclusionRecord
+): Omit<MemoryEntry, 'rememberedAt'> {
+  const supporting = new Set(conclusion.supportingThoughts);
+  return {
+    id: memoryId(session),
+    sessionId: session.id,
+    source: 'conclusion',
+    answer: conclusion.answer,
+    insights: session.thoughtHistory
+      .filter((thought) => supporting.has(thought.thoughtNumber))
+      .map((thought) => snippet(thought.thought, undefined, INSIGHT_LENGTH)),
+    supportingThoughts: conclusion.supportingThoughts,
+  };
+}
+
+/**
+ * Builds a memory from the thought that finished a session. Confirmed hypotheses and
+ * conclusion-stage thoughts are kept as insights.
+ */
+export function memoryFromFinalThought(
+  session: ReasoningSession,
+  input: DeepmindInput
+): Omit<MemoryEntry, 'rememberedAt'> {
+  const history = session.thoughtHistory;
+  const confirmed = new Set(summarizeHypotheses(history).confirmed);
+  const insights = history
+    .filter(
+      (thought) =>
+        thought !== input &&
+        ((thought.stage === 'hypothesis' && confirmed.has(thought.thoughtNumber)) ||
+          thought.stage === 'conclusion')
+    )
+    .map((thought) => snippet(thought.thought, undefined, INSIGHT_LENGTH));
+
+  return {
+    id: memoryId(session),
+    sessionId: session.id,
+    source: 'final-thought',
+    answer: input.thought,
+    insights: [...new Set(insights)],
+  };
+}
+
+/**
+ * Local long-term memory of finished sessions, one JSON file per project directory,
+ * searched with the same lexical ranker as darbot_deepmind_query
+ */
+export class MemoryStore {
+  private readonly file: string;
+
+  constructor(
+    directory: string,
+    private readonly projectDir: string,
+    private readonly retention: MemoryRetention = DEFAULT_MEMORY_RETENTION,
+    private readonly now: () => number = Date.now
+  ) {
+    fs.mkdirSync(directory, { recursive: true });
+    const scope = createHash('sha256').update(path.resolve(projectDir)).digest('hex');
+    this.file = path.join(directory, `${scope.slice(0, 16)}.json`);
+  }
+
+  /**
+   * Reads the project's memories, dropping any past the retention limits
+   */
+  public entries(): MemoryEntry[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+    const parsed = MemoryFileSchema.parse(JSON.parse(fs.readFileSync(this.file, 'utf8')));
+    return this.retain(parsed.entries);
+  }
+
+  /**
+   * Stores a memory, replacing an earlier one from the same session. A final-thought memory
+   * never replaces an explicit conclusion.
+   */
+  public remember(entry: Omit<MemoryEntry, 'rememberedAt'>): void {
+    const entries = this.entries();
+    const existing = entries.find((candidate) => candidate.id === entry.id);
+    if (existing?.source === 'conclusion' && entry.source === 'final-thought') {
+      return;
+    }
+
+    const kept = entries.filter((candidate) => candidate.id !== entry.id);
+    kept.push({ ...entry, rememberedAt: new Date(this.now()).toISOString() });
+    this.write(this.retain(kept));
+  }
+
+  /**
+   * Finds the memories most relevant to a query
+   */
+  public recall(input: RecallInput): RecallHit[] {
+    const entries = this.entries().filter((entry) => entry.sessionId !== input.excludeSessionId);
+    const scores = scoreDocuments(
+      input.query,
+      entries.map((entry) => [entry.answer, ...entry.insights].join('\n'))
+    );
+
+    return entries
+      .map((entry, index) => ({ entry, score: scores[index] }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || b.entry.rememberedAt.localeCompare(a.entry.rememberedAt))
+      .slice(0, input.limit)
+      .map(({ entry, score }) => ({
+        ...entry,
+        score: Math.round(score * 1000) / 1000,
+        sessionUri: sessionUri(entry.sessionId),
+        conclusionUri: entry.source === 'conclusion' ? conclusionUri(entry.sessionId) : undefined,
+      }));
+  }
+
+  /**
+   * Drops memories past the age limit, then the oldest beyond the entry limit
+   */
+  private retain(entries: MemoryEntry[]): MemoryEntry[] {
+    const { maxEntries, maxAgeDays } = this.retention;
+    const cutoff =
+      maxAgeDays !== undefined ? this.now() - maxAgeDays * 24 * 60 * 60 * 1000 : undefined;
+    const fresh =
+      cutoff !== undefined
+        ? entries.filter((entry) => Date.parse(entry.rememberedAt) >= cutoff)
+        : entries;
+    return fresh.sort((a, b) => a.rememberedAt.localeCompare(b.rememberedAt)).slice(-maxEntries);
+  }
+
+  /**
+   * Replaces the memory file, writing to a temporary file first so a crash cannot leave
+   * it half written
+   */
+  private write(entries: MemoryEntry[]): void {
+    const temporary = `${this.file}.tmp`;
+    fs.writeFileSync(
+      temporary,
+      JSON.stringify({ projectDir: path.resolve(this.projectDir), entries }, null, 2),
+      'utf8'
+    );
+    fs.renameSync(temporary, this.file);
+  }
+}
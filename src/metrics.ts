@@ -0,0 +1,229 @@
+import { performance } from 'perf_hooks';
+import type { DarbotDeepmindServer, ServerStats } from './deepmind-server';
+import { VALIDATION_FAILURE_REASONS } from './deepmind-server';
+
+/**
+ * Outcomes of a microsoft_auth call
+ */
+export const AUTH_OUTCOMES = ['success', 'failure', 'timeout'] as const;
+
+export type AuthOutcome = (typeof AUTH_OUTCOMES)[number];
+
+/** Upper bounds of the tool call latency buckets, in seconds; auth calls can take minutes */
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 30, 120, 900];
+
+type Labels = Record<string, string>;
+
+/**
+ * Escapes a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Formats a sample line, with labels in the order given
+ */
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`);
+  const formatted = Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf';
+  return pairs.length > 0 ? `${name}{${pairs.join(',')}} ${formatted}` : `${name} ${formatted}`;
+}
+
+/**
+ * A metric that renders itself in the Prometheus text exposition format
+ */
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * A monotonically increasing count per label set
+ */
+class Counter implements Metric {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {}
+
+  public inc(labels: Labels = {}, amount = 1): void {
+    const key = JSON.stringify(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.series.set(key, entry);
+  }
+
+  public render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map((entry) => sample(this.name, entry.labels, entry.value)),
+    ];
+  }
+}
+
+/**
+ * Cumulative bucketed observations per label set
+ */
+class Histogram implements Metric {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly bounds: number[]
+  ) {}
+
+  public observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.buckets[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const entry of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(
+          sample(
+            `${this.name}_bucket`,
+            { ...entry.labels, le: String(bound) },
+            entry.buckets[index]
+          )
+        );
+      });
+      lines.push(
+        sample(`${this.name}_bucket`, { ...entry.labels, le: '+Inf' }, entry.count),
+        sample(`${this.name}_sum`, entry.labels, entry.sum),
+        sample(`${this.name}_count`, entry.labels, entry.count)
+      );
+    }
+    return lines;
+  }
+}
+
+/**
+ * A value read when metrics are scraped
+ */
+class Gauge implements Metric {
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => number
+  ) {}
+
+  public render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      sample(this.name, {}, this.collect()),
+    ];
+  }
+}
+
+/**
+ * Prometheus metrics for the server: tool calls, refused calls, live session contents and
+ * microsoft_auth outcomes. Session gauges are read from the reasoning server on each scrape.
+ */
+export class DeepmindMetrics {
+  private readonly toolCalls = new Counter(
+    'deepmind_tool_calls_total',
+    'Tool calls by tool and outcome'
+  );
+  private readonly toolDuration = new Histogram(
+    'deepmind_tool_call_duration_seconds',
+    'Tool call latency by tool',
+    LATENCY_BUCKETS
+  );
+  private readonly validationFailures = new Counter(
+    'deepmind_validation_failures_total',
+    'Refused tool calls by reason'
+  );
+  private readonly authOutcomes = new Counter(
+    'deepmind_microsoft_auth_total',
+    'microsoft_auth calls by outcome'
+  );
+  private readonly metrics: Metric[];
+
+  constructor(
+    thinkingServer: DarbotDeepmindServer,
+    private readonly now: () => number = () => performance.now()
+  ) {
+    for (const reason of VALIDATION_FAILURE_REASONS) {
+      this.validationFailures.inc({ reason }, 0);
+    }
+    for (const outcome of AUTH_OUTCOMES) {
+      this.authOutcomes.inc({ outcome }, 0);
+    }
+    thinkingServer.onValidationFailure((reason) => this.validationFailures.inc({ reason }));
+
+    const stat = (key: keyof ServerStats) => (): number => thinkingServer.getStats()[key];
+    this.metrics = [
+      this.toolCalls,
+      this.toolDuration,
+      this.validationFailures,
+      new Gauge('deepmind_sessions_active', 'Live reasoning sessions', stat('sessions')),
+      new Gauge('deepmind_thoughts_stored', 'Thoughts held by live sessions', stat('thoughts')),
+      new Gauge('deepmind_revisions_stored', 'Revisions held by live sessions', stat('revisions')),
+      new Gauge('deepmind_branches_stored', 'Branches held by live sessions', stat('branches')),
+      this.authOutcomes,
+    ];
+  }
+
+  /**
+   * Adds a gauge read on each scrape, such as the number of open transport sessions
+   */
+  public addGauge(name: string, help: string, collect: () => number): void {
+    this.metrics.push(new Gauge(name, help, collect));
+  }
+
+  /**
+   * Runs a tool call, counting it as `error` when it throws or returns an error result
+   */
+  public async observeToolCall<T extends { isError?: boolean }>(
+    tool: string,
+    call: () => T | Promise<T>
+  ): Promise<T> {
+    const started = this.now();
+    let outcome = 'error';
+    try {
+      const result = await call();
+      outcome = result.isError ? 'error' : 'success';
+      return result;
+    } finally {
+      this.toolCalls.inc({ tool, outcome });
+      this.toolDuration.observe({ tool }, (this.now() - started) / 1000);
+    }
+  }
+
+  /**
+   * Counts the outcome of a microsoft_auth call
+   */
+  public recordAuth(outcome: AuthOutcome): void {
+    this.authOutcomes.inc({ outcome });
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  public render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+}
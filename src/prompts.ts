@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+  PromptArgument,
+} from '@modelcontextprotocol/sdk/types.js';
+import { SessionIdSchema } from './session-store';
+
+/**
+ * A structured reasoning recipe that seeds a darbot_deepmind session
+ */
+interface ReasoningPlaybook {
+  name: string;
+  title: string;
+  description: string;
+  /** Suggested thought budget for the session */
+  totalThoughts: number;
+  /** Optional arguments beyond the problem statement and session id */
+  arguments?: PromptArgument[];
+  /** Builds the ordered steps the model should follow */
+  steps: (args: Record<string, string>) => string[];
+}
+
+const COMMON_ARGUMENTS: PromptArgument[] = [
+  {
+    name: 'problem',
+    description: 'Problem statement to reason about',
+    required: true,
+  },
+  {
+    name: 'sessionId',
+    description: 'darbot_deepmind session to record the reasoning in (generated when omitted)',
+    required: false,
+  },
+];
+
+/**
+ * Built-in reasoning playbooks advertised as MCP prompts
+ */
+export const REASONING_PLAYBOOKS: ReasoningPlaybook[] = [
+  {
+    name: 'root-cause-analysis',
+    title: 'Root-cause analysis (5 whys)',
+    description: 'Trace a symptom back to its root cause by asking "why?" five times',
+    totalThoughts: 7,
+    steps: () => [
+      'Thought 1: State the observed symptom precisely, with when and where it occurs.',
+      'Thoughts 2-6: Ask "why did this happen?" once per thought, each answering the previous one. Revise an earlier why (isRevision) if evidence contradicts it.',
+      'If a why has more than one plausible answer, branch (branchFromThought) and follow each cause separately.',
+      'Thought 7: Name the root cause and a corrective action that prevents recurrence, then set nextThoughtNeeded to false.',
+    ],
+  },
+  {
+    name: 'hypothesis-verify',
+    title: 'Hypothesis, then verify',
+    description: 'Form explicit hypotheses and check each against the evidence before concluding',
+    totalThoughts: 6,
+    steps: () => [
+      'Thought 1 (stage "problem-definition"): Define the problem and what a correct answer must satisfy.',
+      'Thought 2 (stage "analysis"): Gather the relevant facts and constraints.',
+      'Thought 3 (stage "hypothesis"): State a single, falsifiable hypothesis.',
+      'Thoughts 4-5 (stage "verification"): Check the hypothesis against each fact, with verifiesThought set to the hypothesis and a verdict of "confirmed", "refuted" or "inconclusive". If it is refuted, revise thought 3 (isRevision) and verify the revision the same way.',
+      'Thought 6 (stage "conclusion"): Conclude with the verified answer only, then set nextThoughtNeeded to false.',
+    ],
+  },
+  {
+    name: 'decision-matrix',
+    title: 'Pros/cons decision matrix',
+    description: 'Compare options against weighted criteria and pick one',
+    totalThoughts: 6,
+    arguments: [
+      {
+        name: 'options',
+        description: 'Comma-separated options to compare (discovered in thought 2 when omitted)',
+        required: false,
+      },
+    ],
+    steps: (args) => [
+      'Thought 1: List the decision criteria and give each a weight.',
+      args.options
+        ? `Thought 2: Confirm the options under consideration: ${args.options}.`
+        : 'Thought 2: Enumerate the realistic options.',
+      'Thoughts 3+: Branch once per option (branchFromThought: 2, branchId: the option name) and list its pros, cons and score against each criterion.',
+      'Final thought: Compare the branch scores, choose one option with a short rationale and set nextThoughtNeeded to false.',
+    ],
+  },
+  {
+    name: 'pre-mortem',
+    title: 'Pre-mortem',
+    description: 'Assume the plan has failed and work backwards to the most likely reasons',
+    totalThoughts: 6,
+    steps: () => [
+      'Thought 1: Restate the plan and what success looks like.',
+      'Thought 2: Imagine it is six months later and the plan failed badly. Describe the failure.',
+      'Thoughts 3-4: List the most likely causes of that failure, ranked by likelihood and impact.',
+      'Thought 5: For each top cause, propose a mitigation or early warning signal.',
+      'Thought 6: Summarise the revised plan, then set nextThoughtNeeded to false.',
+    ],
+  },
+  {
+    name: 'debugging-bisection',
+    title: 'Debugging bisection',
+    description: 'Narrow down a regression by repeatedly halving the search space',
+    totalThoughts: 8,
+    arguments: [
+      {
+        name: 'goodState',
+        description: 'Last known good version, commit or configuration',
+        required: false,
+      },
+      {
+        name: 'badState',
+        description: 'First known bad version, commit or configuration',
+        required: false,
+      },
+    ],
+    steps: (args) => [
+      `Thought 1: Pin down the failing behaviour and the search range${
+        args.goodState || args.badState
+          ? ` (good: ${args.goodState ?? 'unknown'}, bad: ${args.badState ?? 'unknown'})`
+          : ''
+      }.`,
+      'Thought 2: Choose a reliable test that tells good from bad.',
+      'Thoughts 3+: Each thought picks the midpoint of the remaining range, records the test result and halves the range. Raise totalThoughts if the range is larger than expected.',
+      'Final thought: Identify the change that introduced the fault and explain why it causes the failure, then set nextThoughtNeeded to false.',
+    ],
+  },
+];
+
+/**
+ * Lists the playbooks as MCP prompts
+ */
+export function listPrompts(): Prompt[] {
+  return REASONING_PLAYBOOKS.map((playbook) => ({
+    name: playbook.name,
+    title: playbook.title,
+    description: playbook.description,
+    arguments: [...COMMON_ARGUMENTS, ...(playbook.arguments ?? [])],
+  }));
+}
+
+/**
+ * Renders a playbook into the messages that seed a darbot_deepmind session
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const playbook = REASONING_PLAYBOOKS.find((entry) => entry.name === name);
+  if (!playbook) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const problem = args.problem?.trim();
+  if (!problem) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} requires a problem argument`);
+  }
+
+  const requestedId = args.sessionId?.trim();
+  if (requestedId && !SessionIdSchema.safeParse(requestedId).success) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid session id: ${requestedId}`);
+  }
+  const sessionId = requestedId || `${playbook.name}-${randomUUID().slice(0, 8)}`;
+  const steps = playbook.steps(args).map((step) => `- ${step}`);
+
+  const text = [
+    `Work through the following problem with the darbot_deepmind tool using the ${playbook.title} playbook.`,
+    '',
+    `Problem: ${problem}`,
+    '',
+    `Pass sessionId "${sessionId}" on every darbot_deepmind call and start with totalThoughts: ${playbook.totalThoughts}. Adjust the estimate if the problem needs it.`,
+    '',
+    'Structure:',
+    ...steps,
+  ].join('\n');
+
+  return {
+    description: playbook.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text,
+        },
+      },
+    ],
+  };
+}
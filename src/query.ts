@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import { THOUGHT_STAGES, ThoughtStage } from './stages';
+import { scoreDocuments, snippet } from './search';
+import { SessionIdSchema } from './session-store';
+
+/**
+ * Zod schema for validating darbot_deepmind_query tool inputs
+ */
+export const QuerySchema = z.object({
+  sessionId: SessionIdSchema.optional().describe('Reasoning session to search'),
+  query: z.string().min(1).optional().describe('Keywords to search for, ranked by relevance'),
+  branchId: z.string().min(1).optional().describe('Only thoughts on this branch'),
+  isRevision: z
+    .boolean()
+    .optional()
+    .describe('Only revisions (true) or only non-revisions (false)'),
+  stage: z.enum(THOUGHT_STAGES).optional().describe('Only thoughts in this stage'),
+  fromThought: z.number().int().positive().optional().describe('Lowest thought number to include'),
+  toThought: z.number().int().positive().optional().describe('Highest thought number to include'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Results per page'),
+  offset: z.number().int().nonnegative().default(0).describe('Results to skip'),
+});
+
+export type QueryInput = z.infer<typeof QuerySchema>;
+
+/**
+ * A compact search hit: where the thought sits and an excerpt of it
+ */
+export interface QueryHit {
+  /** Position of the thought in the session's history */
+  index: number;
+  thoughtNumber: number;
+  branchId?: string;
+  stage?: ThoughtStage;
+  isRevision?: boolean;
+  revisesThought?: number;
+  /** Relevance to the query; absent when no query was given */
+  score?: number;
+  snippet: string;
+}
+
+/**
+ * One page of search results
+ */
+export interface QueryPage {
+  total: number;
+  offset: number;
+  limit: number;
+  /** Offset of the next page, when there is one */
+  nextOffset?: number;
+  results: QueryHit[];
+}
+
+/**
+ * Whether a thought passes every filter in the query
+ */
+function matchesFilters(thought: DeepmindInput, input: QueryInput): boolean {
+  return (
+    (input.branchId === undefined || thought.branchId === input.branchId) &&
+    (input.isRevision === undefined || Boolean(thought.isRevision) === input.isRevision) &&
+    (input.stage === undefined || thought.stage === input.stage) &&
+    (input.fromThought === undefined || thought.thoughtNumber >= input.fromThought) &&
+    (input.toThought === undefined || thought.thoughtNumber <= input.toThought)
+  );
+}
+
+/**
+ * Filters a thought history and, when keywords are given, ranks the matches by relevance.
+ * Without keywords, matches are returned in the order they were recorded.
+ */
+export function queryThoughts(history: DeepmindInput[], input: QueryInput): QueryPage {
+  const candidates = history
+    .map((thought, index) => ({ thought, index }))
+    .filter(({ thought }) => matchesFilters(thought, input));
+
+  let ranked: Array<{ thought: DeepmindInput; index: number; score?: number }> = candidates;
+  if (input.query !== undefined) {
+    const scores = scoreDocuments(
+      input.query,
+      candidates.map(({ thought }) => thought.thought)
+    );
+    ranked = candidates
+      .map((candidate, position) => ({ ...candidate, score: scores[position] }))
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+  }
+
+  const page = ranked.slice(input.offset, input.offset + input.limit);
+  const nextOffset = input.offset + page.length;
+
+  return {
+    total: ranked.length,
+    offset: input.offset,
+    limit: input.limit,
+    nextOffset: nextOffset < ranked.length ? nextOffset : undefined,
+    results: page.map(({ thought, index, score }) => ({
+      index,
+      thoughtNumber: thought.thoughtNumber,
+      branchId: thought.branchId,
+      stage: thought.stage,
+      isRevision: thought.isRevision,
+      revisesThought: thought.revisesThought,
+      score: score !== undefined ? Math.round(score * 1000) / 1000 : undefined,
+      snippet: snippet(thought.thought, input.query),
+    })),
+  };
+}
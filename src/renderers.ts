@@ -0,0 +1,341 @@
+import chalk from 'chalk';
+import type { DeepmindInput } from './deepmind-server';
+
+/**
+ * Styles a recorded thought can be logged in
+ */
+export const THOUGHT_STYLES = ['box', 'compact', 'markdown', 'plain'] as const;
+
+export type ThoughtStyle = (typeof THOUGHT_STYLES)[number];
+
+export interface RenderOptions {
+  /** Columns available, including the tree indentation */
+  width: number;
+  /** Whether ANSI colours may be used; the plain style never uses them */
+  color: boolean;
+  /** Tree depth of the thought: one level per nested branch, plus one for a revision */
+  depth: number;
+}
+
+export type ThoughtRenderer = (thought: DeepmindInput, options: RenderOptions) => string;
+
+/** Columns thoughts are wrapped to when neither configuration nor the terminal gives a width */
+export const DEFAULT_THOUGHT_WIDTH = 80;
+
+/** Narrowest content width a renderer will wrap to, however deep the tree */
+const MIN_CONTENT_WIDTH = 20;
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const ZERO_WIDTH_PATTERN = /^[\p{Mn}\p{Me}\p{Cf}]+$/u;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/**
+ * Whether a code point is East Asian Wide or Fullwidth, so it takes two terminal columns
+ */
+function isWideCodePoint(code: number): boolean {
+  return (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0x303e) ||
+    (code >= 0x3041 && code <= 0x33ff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0xa000 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x20000 && code <= 0x3fffd)
+  );
+}
+
+/**
+ * Terminal columns taken by one grapheme
+ */
+function graphemeWidth(grapheme: string): number {
+  if (ZERO_WIDTH_PATTERN.test(grapheme)) {
+    return 0;
+  }
+  if (EMOJI_PATTERN.test(grapheme)) {
+    return 2;
+  }
+  return isWideCodePoint(grapheme.codePointAt(0) ?? 0) ? 2 : 1;
+}
+
+/**
+ * Terminal columns taken by a string, ignoring ANSI colour codes and counting wide
+ * characters and emoji as two
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const { segment } of graphemes.segment(text.replace(ANSI_PATTERN, ''))) {
+    width += graphemeWidth(segment);
+  }
+  return width;
+}
+
+/**
+ * Pads a string with spaces to a display width
+ */
+function padDisplay(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+}
+
+/**
+ * Splits a word wider than the limit into pieces that fit
+ */
+function breakWord(word: string, width: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const { segment } of graphemes.segment(word)) {
+    if (piece !== '' && displayWidth(piece + segment) > width) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += segment;
+  }
+  return piece !== '' ? [...pieces, piece] : pieces;
+}
+
+/**
+ * Word-wraps text to a display width. Line breaks in the text are kept, and words wider
+ * than the width are broken.
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter((entry) => entry !== '')) {
+      const candidate = line === '' ? word : `${line} ${word}`;
+      if (displayWidth(candidate) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line !== '') {
+        lines.push(line);
+      }
+      const pieces = breakWord(word, width);
+      line = pieces.pop() ?? '';
+      lines.push(...pieces);
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Cuts a single line to a display width, ending it with an ellipsis when shortened
+ */
+function truncate(text: string, width: number): string {
+  if (displayWidth(text) <= width) {
+    return text;
+  }
+  let kept = '';
+  for (const { segment } of graphemes.segment(text)) {
+    if (displayWidth(`${kept}${segment}…`) > width) {
+      break;
+    }
+    kept += segment;
+  }
+  return `${kept}…`;
+}
+
+/**
+ * Tree prefixes for a thought at a depth: one for its first line and one for the rest
+ */
+function treePrefixes(depth: number): { first: string; rest: string } {
+  if (depth <= 0) {
+    return { first: '', rest: '' };
+  }
+  const guide = '│  '.repeat(depth - 1);
+  return { first: `${guide}└─ `, rest: `${guide}   ` };
+}
+
+/**
+ * Indents rendered lines under their tree prefix
+ */
+function indentTree(lines: string[], depth: number): string {
+  const { first, rest } = treePrefixes(depth);
+  return lines.map((line, index) => `${index === 0 ? first : rest}${line}`).join('\n');
+}
+
+/**
+ * Content width left after the tree indentation
+ */
+function contentWidth(options: RenderOptions): number {
+  return Math.max(
+    MIN_CONTENT_WIDTH,
+    options.width - displayWidth(treePrefixes(options.depth).first)
+  );
+}
+
+/**
+ * Kind label, icon and colour for a thought
+ */
+function describeKind(thought: DeepmindInput): {
+  icon: string;
+  label: string;
+  paint: (text: string) => string;
+} {
+  if (thought.isRevision) {
+    return { icon: '🧠', label: 'Revision', paint: (text) => chalk.yellow(text) };
+  }
+  if (thought.branchFromThought) {
+    return { icon: '🚀', label: 'Branch', paint: (text) => chalk.green(text) };
+  }
+  return { icon: '⚡', label: 'Thought', paint: (text) => chalk.blue(text) };
+}
+
+/**
+ * Where a thought sits relative to the rest of the session, plus its stage
+ */
+function describeContext(thought: DeepmindInput): string {
+  let context = '';
+  if (thought.isRevision) {
+    context = ` (revising thought ${thought.revisesThought})`;
+  } else if (thought.branchFromThought) {
+    context = ` (from thought ${thought.branchFromThought}, ID: ${thought.branchId})`;
+  }
+  if (thought.stage) {
+    context += ` [${thought.stage}${thought.verdict ? `: ${thought.verdict}` : ''}]`;
+  }
+  return context;
+}
+
+/**
+ * Bordered box with the header above a divider and the thought word-wrapped inside
+ */
+export const renderBox: ThoughtRenderer = (thought, options) => {
+  const { icon, label, paint } = describeKind(thought);
+  const heading = `${icon} ${label}`;
+  const header = `${heading} ${thought.thoughtNumber}/${thought.totalThoughts}${describeContext(thought)}`;
+
+  const maxInner = contentWidth(options) - 4;
+  const headerLines = wrapText(header, maxInner);
+  const bodyLines = wrapText(thought.thought, maxInner);
+  const inner = Math.min(
+    maxInner,
+    Math.max(...[...headerLines, ...bodyLines].map((line) => displayWidth(line)))
+  );
+  const border = '─'.repeat(inner + 2);
+  const row = (line: string): string => `│ ${padDisplay(line, inner)} │`;
+  // Pad before colouring so escape codes never count towards the width
+  const headingRow = (line: string): string => {
+    const padded = padDisplay(line, inner);
+    return options.color && padded.startsWith(heading)
+      ? `│ ${paint(heading)}${padded.slice(heading.length)} │`
+      : `│ ${padded} │`;
+  };
+
+  return indentTree(
+    [
+      `┌${border}┐`,
+      ...headerLines.map((line, index) => (index === 0 ? headingRow(line) : row(line))),
+      `├${border}┤`,
+      ...bodyLines.map(row),
+      `└${border}┘`,
+    ],
+    options.depth
+  );
+};
+
+/**
+ * One line: icon, number, context and the thought flattened and cut to fit
+ */
+export const renderCompact: ThoughtRenderer = (thought, options) => {
+  const { icon, paint } = describeKind(thought);
+  const prefix = `${icon} ${thought.thoughtNumber}/${thought.totalThoughts}${describeContext(thought)}`;
+  const text = thought.thought.replace(/\s+/g, ' ').trim();
+  const line = truncate(`${prefix} ${text}`, contentWidth(options));
+  return indentTree(
+    [options.color ? paint(line.slice(0, icon.length)) + line.slice(icon.length) : line],
+    options.depth
+  );
+};
+
+/**
+ * Markdown list item, nested by depth, with the thought as a block quote
+ */
+export const renderMarkdown: ThoughtRenderer = (thought, options) => {
+  const { label } = describeKind(thought);
+  const indent = '  '.repeat(options.depth);
+  const quoted = thought.thought.split(/\r?\n/).map((line) => `${indent}  > ${line}`.trimEnd());
+  return [
+    `${indent}- **${label} ${thought.thoughtNumber}/${thought.totalThoughts}**${describeContext(thought)}`,
+    ...quoted,
+  ].join('\n');
+};
+
+/**
+ * Header and word-wrapped text without colours, icons or borders
+ */
+export const renderPlain: ThoughtRenderer = (thought, options) => {
+  const { label } = describeKind(thought);
+  const width = contentWidth(options);
+  return indentTree(
+    [
+      ...wrapText(
+        `${label} ${thought.thoughtNumber}/${thought.totalThoughts}${describeContext(thought)}`,
+        width
+      ),
+      ...wrapText(thought.thought, width - 2).map((line) => `  ${line}`.trimEnd()),
+    ],
+    options.depth
+  );
+};
+
+export const THOUGHT_RENDERERS: Record<ThoughtStyle, ThoughtRenderer> = {
+  box: renderBox,
+  compact: renderCompact,
+  markdown: renderMarkdown,
+  plain: renderPlain,
+};
+
+/**
+ * Parses a thought style, or undefined when unset or unknown
+ */
+export function parseThoughtStyle(value: string | undefined): ThoughtStyle | undefined {
+  const style = value?.trim().toLowerCase();
+  return THOUGHT_STYLES.find((candidate) => candidate === style);
+}
+
+/**
+ * Tree depth of a thought: one level for each branch between it and the mainline, plus
+ * one when it is a revision. A branch forks from its thought in the parent branch named by
+ * the branch's first thought, or in the mainline when it has no parent or the parent never
+ * recorded that thought.
+ */
+export function thoughtDepth(history: DeepmindInput[], thought: DeepmindInput): number {
+  let depth = thought.isRevision ? 1 : 0;
+  const visited = new Set<string>();
+  let current: DeepmindInput | undefined = thought;
+
+  while (current?.branchId && current.branchFromThought && !visited.has(current.branchId)) {
+    const { branchId, branchFromThought }: DeepmindInput = current;
+    const firstInBranch: DeepmindInput =
+      history.find((entry) => entry.branchId === branchId) ?? current;
+    const { parentBranchId } = firstInBranch;
+    visited.add(branchId);
+    depth++;
+    const inLane = (laneId: string | undefined): DeepmindInput | undefined =>
+      history.find(
+        (entry) => entry.thoughtNumber === branchFromThought && entry.branchId === laneId
+      );
+    current = inLane(parentBranchId) ?? inLane(undefined);
+  }
+  return depth;
+}
+
+/**
+ * Renders a thought in a style
+ */
+export function renderThought(
+  thought: DeepmindInput,
+  style: ThoughtStyle,
+  options: RenderOptions
+): string {
+  return THOUGHT_RENDERERS[style](thought, options);
+}
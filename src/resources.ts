@@ -0,0 +1,261 @@
+import {
+  ErrorCode,
+  McpError,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  DarbotDeepmindServer,
+  SessionChangedEvent,
+  ThoughtRecordedEvent,
+} from './deepmind-server';
+import { SessionIdSchema } from './session-store';
+
+/**
+ * URI of the session index resource
+ */
+export const SESSIONS_URI = 'deepmind://sessions';
+
+const SESSION_URI_PATTERN =
+  /^deepmind:\/\/sessions\/([^/]+)(\/thoughts(?:\/(\d+))?|\/conclusion)?$/;
+
+/**
+ * Decodes the session id in a resource URI, refusing ids the tools would not accept
+ */
+function parseSessionId(segment: string): string {
+  let decoded: string | undefined;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    decoded = undefined;
+  }
+  const sessionId = SessionIdSchema.safeParse(decoded);
+  if (!sessionId.success) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid session id: ${segment}`);
+  }
+  return sessionId.data;
+}
+
+/**
+ * Contents of a resource read
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Builds the URI of a session summary resource
+ */
+export function sessionUri(sessionId: string): string {
+  return `${SESSIONS_URI}/${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Builds the URI of a session's thought list, or of one thought number within it
+ */
+export function thoughtsUri(sessionId: string, thoughtNumber?: number): string {
+  const base = `${sessionUri(sessionId)}/thoughts`;
+  return thoughtNumber === undefined ? base : `${base}/${thoughtNumber}`;
+}
+
+/**
+ * Builds the URI of a session's conclusion
+ */
+export function conclusionUri(sessionId: string): string {
+  return `${sessionUri(sessionId)}/conclusion`;
+}
+
+/**
+ * Serves reasoning sessions as MCP resources and tracks subscriptions to them
+ */
+export class DeepmindResourceProvider {
+  private subscriptions = new Set<string>();
+
+  constructor(private readonly thinkingServer: DarbotDeepmindServer) {}
+
+  /**
+   * Lists the session index and a summary and thought list resource for each live session, plus
+   * its conclusion once it has one
+   */
+  public listResources(): Resource[] {
+    const resources: Resource[] = [
+      {
+        uri: SESSIONS_URI,
+        name: 'Reasoning sessions',
+        description: 'Index of reasoning sessions held by the server',
+        mimeType: 'application/json',
+      },
+    ];
+
+    for (const sessionId of this.thinkingServer.getSessionIds()) {
+      resources.push(
+        {
+          uri: sessionUri(sessionId),
+          name: `Session ${sessionId}`,
+          description: `Summary of reasoning session ${sessionId}`,
+          mimeType: 'application/json',
+        },
+        {
+          uri: thoughtsUri(sessionId),
+          name: `Session ${sessionId} thoughts`,
+          description: `Thought history of reasoning session ${sessionId}`,
+          mimeType: 'application/json',
+        }
+      );
+      if (this.thinkingServer.getConclusion(sessionId)) {
+        resources.push({
+          uri: conclusionUri(sessionId),
+          name: `Session ${sessionId} conclusion`,
+          description: `Final answer of reasoning session ${sessionId}`,
+          mimeType: 'application/json',
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Lists URI templates for addressing sessions, individual thoughts and conclusions
+   */
+  public listResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${SESSIONS_URI}/{sessionId}`,
+        name: 'Reasoning session',
+        description: 'Summary of a reasoning session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${SESSIONS_URI}/{sessionId}/thoughts`,
+        name: 'Session thoughts',
+        description: 'Full thought history of a reasoning session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${SESSIONS_URI}/{sessionId}/thoughts/{thoughtNumber}`,
+        name: 'Session thought',
+        description: 'Every recorded thought with the given number in a reasoning session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${SESSIONS_URI}/{sessionId}/conclusion`,
+        name: 'Session conclusion',
+        description: 'Final answer, supporting thoughts and outline of a reasoning session',
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  /**
+   * Reads a deepmind:// resource
+   */
+  public readResource(uri: string): ResourceContents {
+    if (uri === SESSIONS_URI) {
+      const sessions = this.thinkingServer
+        .getSessionIds()
+        .map((sessionId) => this.thinkingServer.getSessionInfo(sessionId));
+      return this.json(uri, { sessions });
+    }
+
+    const match = SESSION_URI_PATTERN.exec(uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const sessionId = parseSessionId(match[1]);
+    const info = this.thinkingServer.getSessionInfo(sessionId);
+    if (!info) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown session: ${sessionId}`);
+    }
+
+    if (match[2] === undefined) {
+      return this.json(uri, info);
+    }
+
+    if (match[2] === '/conclusion') {
+      const conclusion = this.thinkingServer.getConclusion(sessionId);
+      if (!conclusion) {
+        throw new McpError(ErrorCode.InvalidParams, `Session ${sessionId} has no conclusion`);
+      }
+      return this.json(uri, { sessionId, ...conclusion });
+    }
+
+    const thoughtHistory = this.thinkingServer.getThoughtHistory(sessionId);
+    if (match[3] === undefined) {
+      return this.json(uri, { sessionId, thoughtHistory });
+    }
+
+    const thoughtNumber = Number(match[3]);
+    const thoughts = thoughtHistory.filter((thought) => thought.thoughtNumber === thoughtNumber);
+    if (thoughts.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Session ${sessionId} has no thought ${thoughtNumber}`
+      );
+    }
+    return this.json(uri, { sessionId, thoughtNumber, thoughts });
+  }
+
+  /**
+   * Starts tracking a resource for change notifications
+   */
+  public subscribe(uri: string): void {
+    if (uri !== SESSIONS_URI) {
+      const match = SESSION_URI_PATTERN.exec(uri);
+      if (!match) {
+        throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to unknown resource: ${uri}`);
+      }
+      parseSessionId(match[1]);
+    }
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Stops tracking a resource
+   */
+  public unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * Returns the subscribed URIs affected by a newly recorded thought
+   */
+  public changedResources(event: ThoughtRecordedEvent): string[] {
+    const affected = [
+      SESSIONS_URI,
+      sessionUri(event.sessionId),
+      thoughtsUri(event.sessionId),
+      thoughtsUri(event.sessionId, event.thought.thoughtNumber),
+    ];
+    return affected.filter((uri) => this.subscriptions.has(uri));
+  }
+
+  /**
+   * Returns the subscribed URIs affected by a rollback, restore, branch change or conclusion.
+   * Rollbacks and restores can touch any thought, so every resource of the session is included.
+   */
+  public changedSessionResources(event: SessionChangedEvent): string[] {
+    const summary = sessionUri(event.sessionId);
+    if (event.change === 'branch') {
+      return [SESSIONS_URI, summary].filter((uri) => this.subscriptions.has(uri));
+    }
+    if (event.change === 'conclusion') {
+      return [SESSIONS_URI, summary, conclusionUri(event.sessionId)].filter((uri) =>
+        this.subscriptions.has(uri)
+      );
+    }
+    return [...this.subscriptions].filter(
+      (uri) => uri === SESSIONS_URI || uri === summary || uri.startsWith(`${summary}/`)
+    );
+  }
+
+  /**
+   * Serializes a value as a JSON resource body
+   */
+  private json(uri: string, value: unknown): ResourceContents {
+    return { uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) };
+  }
+}
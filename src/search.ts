@@ -0,0 +1,131 @@
+/**
+ * Words too common to help rank a search
+ */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'did',
+  'do',
+  'for',
+  'from',
+  'how',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'we',
+  'what',
+  'when',
+  'where',
+  'which',
+  'why',
+  'with',
+]);
+
+const SUFFIXES = ['ing', 'ed', 'es', 's', 'e'];
+
+/**
+ * Strips a common English suffix so that "decide", "decided" and "deciding" match
+ */
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Splits text into lowercase, stemmed search terms, dropping stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Scores each document against the query with BM25. Documents sharing no term with the
+ * query score 0.
+ */
+export function scoreDocuments(query: string, documents: string[]): number[] {
+  const terms = [...new Set(tokenize(query))];
+  const tokenized = documents.map(tokenize);
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const averageLength =
+    tokenized.reduce((total, tokens) => total + tokens.length, 0) / documents.length || 1;
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = tokenized.filter((tokens) => tokens.includes(term)).length;
+      return [
+        term,
+        Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)),
+      ] as const;
+    })
+  );
+
+  return tokenized.map((tokens) => {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = tokens.filter((token) => token === term).length;
+      if (frequency === 0) {
+        continue;
+      }
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / averageLength);
+      score += ((idf.get(term) ?? 0) * frequency * (BM25_K1 + 1)) / (frequency + norm);
+    }
+    return score;
+  });
+}
+
+/**
+ * Cuts a short excerpt of the text around the first query term it contains, or from the
+ * start when there is no query or no match
+ */
+export function snippet(text: string, query: string | undefined, maxLength = 160): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= maxLength) {
+    return flat;
+  }
+
+  const terms = new Set(tokenize(query ?? ''));
+  let start = 0;
+  for (const match of flat.matchAll(/[A-Za-z0-9]+/g)) {
+    if (terms.has(stem(match[0].toLowerCase()))) {
+      start = Math.max(0, (match.index ?? 0) - Math.floor(maxLength / 3));
+      break;
+    }
+  }
+  start = Math.min(start, flat.length - maxLength);
+  if (start > 0) {
+    const boundary = flat.indexOf(' ', start);
+    start = boundary === -1 ? start : boundary + 1;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const body = flat.slice(start, start + maxLength - prefix.length - 1).trimEnd();
+  const suffix = start + body.length < flat.length ? '…' : '';
+  return `${prefix}${body}${suffix}`;
+}
@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import type { DeepmindInput } from './deepmind-server';
+import type { ValidationMode } from './integrity';
+import type { BranchRecord } from './branches';
+import type { ArchivedSuffix, Checkpoint } from './checkpoints';
+import type { ConclusionRecord } from './conclusion';
+
+/**
+ * Session used when a darbot_deepmind call does not name one
+ */
+export const DEFAULT_SESSION_ID = 'default';
+
+/**
+ * Session identifier shared by every tool. Ids name journal files, so they are limited to
+ * characters that cannot leave the journal directory.
+ */
+export const SessionIdSchema = z
+  .string()
+  .min(1)
+  .max(128)
+  .regex(/^[A-Za-z0-9._-]+$/, 'sessionId may only contain letters, digits, ".", "_" and "-"');
+
+/**
+ * Per-session counters maintained as thoughts are recorded
+ */
+export interface SessionCounters {
+  thoughts: number;
+  revisions: number;
+  branchThoughts: number;
+}
+
+/**
+ * Per-session options, set through thought fields and replayed from the journal
+ */
+export interface SessionSettings {
+  validation?: ValidationMode;
+  /** Hide abandoned and merged branches from responses */
+  pruneBranches?: boolean;
+  /** Recent thoughts in the rolling summary; 0 turns the summary off */
+  contextWindow?: number;
+}
+
+/**
+ * Isolated reasoning state for a single session
+ */
+export interface ReasoningSession {
+  id: string;
+  thoughtHistory: DeepmindInput[];
+  branches: Record<string, DeepmindInput[]>;
+  branchRecords: Record<string, BranchRecord>;
+  checkpoints: Record<string, Checkpoint>;
+  /** Suffixes discarded by rollbacks, oldest first */
+  archives: ArchivedSuffix[];
+  /** Final answer recorded by darbot_deepmind_conclude */
+  conclusion?: ConclusionRecord;
+  counters: SessionCounters;
+  /** Serialized size of the recorded thoughts, for the bytes budget */
+  bytes: number;
+  settings: SessionSettings;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface SessionStoreOptions {
+  /** Idle time in milliseconds after which a session is evicted (0 disables eviction) */
+  ttlMs?: number;
+  /** Maximum number of live sessions before the least recently used one is evicted */
+  maxSessions?: number;
+  /** Clock used for timestamps, injectable for tests */
+  now?: () => number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+
+/**
+ * Creates an empty reasoning session
+ */
+export function createSession(id: string, now: number): ReasoningSession {
+  return {
+    id,
+    thoughtHistory: [],
+    branches: {},
+    branchRecords: {},
+    checkpoints: {},
+    archives: [],
+    counters: { thoughts: 0, revisions: 0, branchThoughts: 0 },
+    bytes: 0,
+    settings: {},
+    createdAt: now,
+    lastAccessedAt: now,
+  };
+}
+
+/**
+ * In-memory registry of reasoning sessions with idle-TTL eviction and a live session cap
+ */
+export class SessionStore {
+  private sessions = new Map<string, ReasoningSession>();
+  private readonly ttlMs: number;
+  private readonly maxSessions: number;
+  private readonly now: () => number;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxSessions = Math.max(1, options.maxSessions ?? DEFAULT_MAX_SESSIONS);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns the session with the given id, creating it if it does not exist
+   */
+  public get(id: string = DEFAULT_SESSION_ID): ReasoningSession {
+    this.evictExpired();
+
+    const existing = this.sessions.get(id);
+    if (existing) {
+      existing.lastAccessedAt = this.now();
+      // Re-insert so Map iteration order tracks recency
+      this.sessions.delete(id);
+      this.sessions.set(id, existing);
+      return existing;
+    }
+
+    while (this.sessions.size >= this.maxSessions) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+    }
+
+    const session = createSession(id, this.now());
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Returns the session with the given id without creating or touching it
+   */
+  public peek(id: string = DEFAULT_SESSION_ID): ReasoningSession | undefined {
+    this.evictExpired();
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Checks whether a live session exists
+   */
+  public has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /**
+   * Removes a session, returning whether it existed
+   */
+  public delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Removes every session
+   */
+  public clear(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Lists live sessions, least recently used first
+   */
+  public list(): ReasoningSession[] {
+    this.evictExpired();
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Number of live sessions
+   */
+  public get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Evicts sessions idle for longer than the TTL and returns their ids
+   */
+  public evictExpired(): string[] {
+    if (this.ttlMs <= 0) {
+      return [];
+    }
+
+    const cutoff = this.now() - this.ttlMs;
+    const evicted: string[] = [];
+    for (const [id, session] of this.sessions) {
+      if (session.lastAccessedAt < cutoff) {
+        this.sessions.delete(id);
+        evicted.push(id);
+      }
+    }
+    return evicted;
+  }
+}
@@ -0,0 +1,80 @@
+import type { DeepmindInput } from './deepmind-server';
+
+/**
+ * Stages a thought can be tagged with, in their usual order
+ */
+export const THOUGHT_STAGES = [
+  'problem-definition',
+  'analysis',
+  'hypothesis',
+  'verification',
+  'conclusion',
+] as const;
+
+export type ThoughtStage = (typeof THOUGHT_STAGES)[number];
+
+/**
+ * Outcomes of verifying a hypothesis
+ */
+export const VERDICTS = ['confirmed', 'refuted', 'inconclusive'] as const;
+
+export type Verdict = (typeof VERDICTS)[number];
+
+/**
+ * Hypotheses of a session grouped by their latest verdict
+ */
+export interface HypothesisStatus {
+  /** Hypotheses with no confirmed or refuted verification yet */
+  unverified: number[];
+  confirmed: number[];
+  refuted: number[];
+}
+
+/**
+ * Finds the most recent hypothesis thought with the given number
+ */
+export function findHypothesis(
+  history: DeepmindInput[],
+  thoughtNumber: number
+): DeepmindInput | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const thought = history[i];
+    if (thought.thoughtNumber === thoughtNumber && thought.stage === 'hypothesis') {
+      return thought;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Derives the verification status of every hypothesis in a history. The latest conclusive
+ * verdict wins; inconclusive verifications leave a hypothesis unverified.
+ */
+export function summarizeHypotheses(history: DeepmindInput[]): HypothesisStatus {
+  const verdicts = new Map<number, Verdict | undefined>();
+
+  for (const thought of history) {
+    if (thought.stage === 'hypothesis') {
+      verdicts.set(thought.thoughtNumber, undefined);
+    } else if (
+      thought.verifiesThought !== undefined &&
+      verdicts.has(thought.verifiesThought) &&
+      thought.verdict !== undefined &&
+      thought.verdict !== 'inconclusive'
+    ) {
+      verdicts.set(thought.verifiesThought, thought.verdict);
+    }
+  }
+
+  const status: HypothesisStatus = { unverified: [], confirmed: [], refuted: [] };
+  for (const [thoughtNumber, verdict] of verdicts) {
+    if (verdict === 'confirmed') {
+      status.confirmed.push(thoughtNumber);
+    } else if (verdict === 'refuted') {
+      status.refuted.push(thoughtNumber);
+    } else {
+      status.unverified.push(thoughtNumber);
+    }
+  }
+  return status;
+}